@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "note" ADD COLUMN "expiresAt" TIMESTAMP(3);
+
+-- Backfill existing notes with the previous fixed 30-day expiry
+UPDATE "note" SET "expiresAt" = "createdAt" + INTERVAL '30 days' WHERE "expiresAt" IS NULL;
+
+ALTER TABLE "note" ALTER COLUMN "expiresAt" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "note_expiresAt_idx" ON "note"("expiresAt");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "note" ADD COLUMN "maxViews" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "remainingViews" INTEGER NOT NULL DEFAULT 1;
+
+-- Notes that were already read have no views left
+UPDATE "note" SET "remainingViews" = 0 WHERE "viewed" = true;
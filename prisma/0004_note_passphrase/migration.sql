@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "note" ADD COLUMN "passphraseHash" TEXT,
+ADD COLUMN "passphraseAttemptsLeft" INTEGER;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "note" ADD COLUMN "manageTokenHash" TEXT,
+ADD COLUMN "revealedAt" TIMESTAMP(3),
+ADD COLUMN "revealSource" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "note" ADD COLUMN "revokedAt" TIMESTAMP(3);
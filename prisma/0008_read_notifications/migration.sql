@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "note" ADD COLUMN "notifyPush" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "notifyEmail" TEXT,
+ADD COLUMN "notifyWebhookUrl" TEXT,
+ADD COLUMN "notifyWebhookSecret" TEXT;
+
+-- CreateTable
+CREATE TABLE "push_token" (
+    "deviceId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "push_token_pkey" PRIMARY KEY ("deviceId")
+);
+
+-- CreateTable
+CREATE TABLE "notification_outbox" (
+    "id" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "secret" TEXT,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMP(3),
+
+    CONSTRAINT "notification_outbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_outbox_status_nextAttemptAt_idx" ON "notification_outbox"("status", "nextAttemptAt");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "note_attachment" (
+    "id" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "data" BYTEA NOT NULL,
+    "meta" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "note_attachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "note_attachment_noteId_idx" ON "note_attachment"("noteId");
+
+-- AddForeignKey
+ALTER TABLE "note_attachment" ADD CONSTRAINT "note_attachment_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "note"("id") ON DELETE CASCADE ON UPDATE CASCADE;
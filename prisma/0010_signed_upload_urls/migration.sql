@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "consumed_signed_url" (
+    "signature" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "consumed_signed_url_pkey" PRIMARY KEY ("signature")
+);
+
+-- CreateIndex
+CREATE INDEX "consumed_signed_url_expiresAt_idx" ON "consumed_signed_url"("expiresAt");
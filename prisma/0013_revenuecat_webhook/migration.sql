@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "note_usage" ADD COLUMN "premiumExpiresAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "revenuecat_event" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "appUserId" TEXT NOT NULL,
+    "processedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "revenuecat_event_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "note_usage" ADD COLUMN "tier" TEXT NOT NULL DEFAULT 'free';
+
+-- Existing premium devices bought the legacy "premium" entitlement, which maps to Plus
+UPDATE "note_usage" SET "tier" = 'plus' WHERE "isPremium" = true;
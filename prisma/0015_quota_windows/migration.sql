@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "note_usage" ADD COLUMN "day" INTEGER NOT NULL DEFAULT 0;
+
+-- DropIndex
+DROP INDEX "note_usage_deviceId_month_year_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "note_usage_deviceId_year_month_day_key" ON "note_usage"("deviceId", "year", "month", "day");
+
+-- Rows with month 0, year 0 stay as the lifetime records with the plan state. Devices that only
+-- have rows from the old monthly tracking get a lifetime record with their total count and the
+-- plan state of their latest month (the monthly rows are kept as monthly buckets).
+INSERT INTO "note_usage" ("id", "deviceId", "year", "month", "day", "count", "isPremium", "tier", "premiumExpiresAt")
+SELECT DISTINCT ON ("deviceId") gen_random_uuid()::text, "deviceId", 0, 0, 0,
+       (SUM("count") OVER (PARTITION BY "deviceId"))::int, "isPremium", "tier", "premiumExpiresAt"
+FROM "note_usage" u
+WHERE NOT EXISTS (
+  SELECT 1 FROM "note_usage" l WHERE l."deviceId" = u."deviceId" AND l."year" = 0 AND l."month" = 0 AND l."day" = 0
+)
+ORDER BY "deviceId", "year" DESC, "month" DESC;
+
+-- Backfill monthly and daily buckets from the notes still in the database
+INSERT INTO "note_usage" ("id", "deviceId", "year", "month", "day", "count")
+SELECT gen_random_uuid()::text, "deviceId",
+       EXTRACT(YEAR FROM "createdAt")::int, EXTRACT(MONTH FROM "createdAt")::int, 0, COUNT(*)::int
+FROM "note"
+WHERE "deviceId" IS NOT NULL
+GROUP BY "deviceId", EXTRACT(YEAR FROM "createdAt"), EXTRACT(MONTH FROM "createdAt")
+ON CONFLICT ("deviceId", "year", "month", "day") DO NOTHING;
+
+INSERT INTO "note_usage" ("id", "deviceId", "year", "month", "day", "count")
+SELECT gen_random_uuid()::text, "deviceId",
+       EXTRACT(YEAR FROM "createdAt")::int, EXTRACT(MONTH FROM "createdAt")::int, EXTRACT(DAY FROM "createdAt")::int, COUNT(*)::int
+FROM "note"
+WHERE "deviceId" IS NOT NULL AND "createdAt" >= CURRENT_TIMESTAMP - INTERVAL '400 days'
+GROUP BY "deviceId", EXTRACT(YEAR FROM "createdAt"), EXTRACT(MONTH FROM "createdAt"), EXTRACT(DAY FROM "createdAt");
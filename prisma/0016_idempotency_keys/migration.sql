@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "idempotency_key" (
+    "deviceId" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "requestHash" TEXT NOT NULL,
+    "response" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "idempotency_key_pkey" PRIMARY KEY ("deviceId","keyHash")
+);
+
+-- CreateIndex
+CREATE INDEX "idempotency_key_expiresAt_idx" ON "idempotency_key"("expiresAt");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "note" ADD COLUMN "userId" TEXT;
+
+-- CreateTable
+CREATE TABLE "device_claim" (
+    "deviceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "claimedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_claim_pkey" PRIMARY KEY ("deviceId")
+);
+
+-- CreateIndex
+CREATE INDEX "note_userId_idx" ON "note"("userId");
+
+-- CreateIndex
+CREATE INDEX "device_claim_userId_idx" ON "device_claim"("userId");
+
+-- AddForeignKey
+ALTER TABLE "note" ADD CONSTRAINT "note_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "device_claim" ADD CONSTRAINT "device_claim_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
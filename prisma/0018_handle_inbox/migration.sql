@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "note" ADD COLUMN "recipientUserId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "note_recipientUserId_idx" ON "note"("recipientUserId");
+
+-- AddForeignKey
+ALTER TABLE "note" ADD CONSTRAINT "note_recipientUserId_fkey" FOREIGN KEY ("recipientUserId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "note" ADD COLUMN "keyEnvelope" TEXT;
+
+-- CreateTable
+CREATE TABLE "user_public_key" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retiredAt" TIMESTAMP(3),
+
+    CONSTRAINT "user_public_key_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_public_key_fingerprint_key" ON "user_public_key"("fingerprint");
+
+-- CreateIndex
+CREATE INDEX "user_public_key_userId_idx" ON "user_public_key"("userId");
+
+-- AddForeignKey
+ALTER TABLE "user_public_key" ADD CONSTRAINT "user_public_key_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
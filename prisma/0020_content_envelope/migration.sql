@@ -0,0 +1,3 @@
+-- AlterTable
+-- Existing notes keep the legacy AES-256-CTR format
+ALTER TABLE "note" ADD COLUMN "envelopeVersion" INTEGER NOT NULL DEFAULT 0;
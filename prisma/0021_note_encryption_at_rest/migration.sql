@@ -0,0 +1,7 @@
+-- AlterTable
+-- Existing notes stay as sent (keyId NULL) until the rotation command seals them
+ALTER TABLE "note" ADD COLUMN "keyId" TEXT,
+ADD COLUMN "wrappedDataKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "note_keyId_idx" ON "note"("keyId");
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "device_secret" (
+    "deviceId" TEXT NOT NULL,
+    "secretHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_secret_pkey" PRIMARY KEY ("deviceId")
+);
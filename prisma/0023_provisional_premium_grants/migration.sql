@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "note_usage" ADD COLUMN "premiumProvisionalGrantedAt" TIMESTAMP(3);
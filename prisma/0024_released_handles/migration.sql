@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "released_handle" (
+    "handle" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "releasedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "released_handle_pkey" PRIMARY KEY ("handle")
+);
+
+-- CreateIndex
+CREATE INDEX "released_handle_userId_idx" ON "released_handle"("userId");
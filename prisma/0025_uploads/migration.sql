@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "upload" (
+    "key" TEXT NOT NULL,
+    "userId" TEXT,
+    "tokenHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "upload_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "legacy_device_proof" (
+    "deviceId" TEXT NOT NULL,
+    "manageTokenHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "legacy_device_proof_pkey" PRIMARY KEY ("deviceId","manageTokenHash")
+);
+
+-- Existing installs prove themselves with a manage token they got before secrets existed,
+-- notes created from now on don't count (anyone who knows a deviceId can create one)
+INSERT INTO "legacy_device_proof" ("deviceId", "manageTokenHash")
+SELECT DISTINCT "deviceId", "manageTokenHash" FROM "note"
+WHERE "deviceId" IS NOT NULL AND "manageTokenHash" IS NOT NULL
+  AND "deviceId" NOT IN (SELECT "deviceId" FROM "device_secret");
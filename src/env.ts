@@ -19,6 +19,35 @@ const envSchema = z.object({
   // Used for Better Auth and for Expo client access
   BACKEND_URL: z.string().optional().default("http://localhost:3000"), // Set via the Vibecode enviroment at run-time
 
+  // Blob storage for uploads ("local" disk or an S3-compatible bucket)
+  STORAGE_DRIVER: z.enum(["local", "s3"]).optional().default("local"),
+  STORAGE_LOCAL_DIR: z.string().optional().default("uploads"),
+  S3_BUCKET: z.string().optional(),
+  S3_ENDPOINT: z.string().optional(), // e.g. http://localhost:9000 for MinIO
+  S3_REGION: z.string().optional().default("us-east-1"),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  UPLOAD_SIGNING_SECRET: z.string().optional(), // Signs /uploads URLs, falls back to BETTER_AUTH_SECRET
+
+  // Rate limiting ("memory" for a single instance, "postgres" to share counters between replicas)
+  RATE_LIMIT_STORE: z.enum(["memory", "postgres"]).optional().default("memory"),
+  TRUST_PROXY: z.enum(["true", "false"]).optional().default("false"), // Read the client IP from X-Forwarded-For, required behind a proxy (e.g. on Railway)
+  TRUST_PROXY_HOPS: z.string().regex(/^[1-9]\d*$/, "TRUST_PROXY_HOPS must be a positive integer").optional().default("1"), // Trusted proxies in front of the app (1 on Railway)
+
+  // Note encryption at rest: comma-separated "keyId:base64 32-byte key" entries, the first one
+  // encrypts new notes and the rest only decrypt (see src/lib/noteAtRest.ts). Off when neither is set
+  NOTE_MASTER_KEYS: z.string().optional(),
+  NOTE_MASTER_KEYS_FILE: z.string().optional(), // File with the same entries, one per line (after NOTE_MASTER_KEYS)
+
+  // RevenueCat webhook: the exact Authorization header value configured in the RevenueCat dashboard
+  REVENUECAT_WEBHOOK_AUTH: z.string().optional(),
+
+  // Read notifications
+  EXPO_PUSH_API_URL: z.string().optional().default("https://exp.host/--/api/v2/push/send"),
+  EMAIL_API_URL: z.string().optional(), // Resend-compatible endpoint, email notifications are off when unset
+  EMAIL_API_KEY: z.string().optional(),
+  EMAIL_FROM: z.string().optional().default("DestructNote <notifications@destructnote.app>"),
+
   // Google OAuth Configuration
   // GOOGLE_CLIENT_ID: z.string().min(1, "GOOGLE_CLIENT_ID is required"),
   // GOOGLE_CLIENT_SECRET: z.string().min(1, "GOOGLE_CLIENT_SECRET is required"),
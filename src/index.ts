@@ -1,6 +1,7 @@
 import "@vibecodeapp/proxy"; // DO NOT REMOVE OTHERWISE VIBECODE PROXY WILL NOT WORK
 import { serve } from "@hono/node-server";
 import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { serveStatic } from "@hono/node-server/serve-static";
@@ -10,13 +11,31 @@ import { env } from "./env";
 import { uploadRouter } from "./routes/upload";
 import { sampleRouter } from "./routes/sample";
 import { notesRouter } from "./routes/notes";
+import { notificationsRouter } from "./routes/notifications";
+import { webhooksRouter } from "./routes/webhooks";
+import { meRouter } from "./routes/me";
+import { handlesRouter } from "./routes/handles";
+import { inboxRouter } from "./routes/inbox";
+import { devicesRouter } from "./routes/devices";
 import { type AppType } from "./types";
+import { revealNoteRequestSchema } from "./shared/contracts";
 import { db } from "./db";
 import { startCleanupJob } from "./lib/noteCleanup";
+import { storage } from "./lib/storage";
+import { PUBLIC_UPLOAD_ASSETS, verifyUploadUrl } from "./lib/signedUrls";
+import { enqueueRevealNotifications, startNotificationWorker } from "./lib/notificationOutbox";
+import { consumeFailureResponse, consumeNote } from "./lib/noteConsumption";
+import { KEY_PROOF_MESSAGE } from "./lib/noteKeyProof";
+import { KEY_WRAP_INFO, parseKeyEnvelope } from "./lib/publicKeys";
+import { CONTENT_ENVELOPE_VERSION, KEY_ID_MESSAGE, LEGACY_CONTENT_VERSION } from "./lib/noteEnvelope";
+import { RATE_LIMITS, rateLimit } from "./lib/rateLimit";
 
 // Start the cleanup job for expired notes
 startCleanupJob();
 
+// Start delivering queued read notifications
+startNotificationWorker();
+
 // AppType context adds user and session to the context, will be null if the user or session is null
 const app = new Hono<AppType>();
 
@@ -27,8 +46,9 @@ app.use(
   cors({
     origin: (origin) => origin || "*", // Allow the requesting origin or fallback to *
     credentials: true,
-    allowHeaders: ["Content-Type", "Authorization", "expo-origin"], // expo-origin is required for Better Auth Expo plugin
+    allowHeaders: ["Content-Type", "Authorization", "expo-origin", "X-Passphrase-Verifier", "X-Key-Proof", "X-Manage-Token", "Idempotency-Key"], // expo-origin is required for Better Auth Expo plugin
     allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    exposeHeaders: ["RateLimit-Limit", "RateLimit-Remaining", "RateLimit-Reset", "Retry-After", "Idempotent-Replayed"],
   }),
 );
 
@@ -61,10 +81,41 @@ app.on(["GET", "POST"], "/api/auth/*", (c) => {
   return auth.handler(request);
 });
 
-// Serve uploaded images statically
-// Files in uploads/ directory are accessible at /uploads/* URLs
-console.log("📁 Serving static files from uploads/ directory");
-app.use("/uploads/*", serveStatic({ root: "./" }));
+// Serve uploaded images
+// Bundled assets ship in the repo's uploads/ directory and are always served from disk without
+// a signature, everything else needs a signed URL and is read through the configured storage
+// driver (local disk or S3)
+console.log(`📁 Serving uploads from ${storage.driver} storage at /uploads/* (signed URLs only)`);
+for (const asset of PUBLIC_UPLOAD_ASSETS) {
+  app.use(`/uploads/${asset}`, serveStatic({ root: "./" }));
+}
+app.get("/uploads/:key", async (c) => {
+  const key = c.req.param("key");
+
+  try {
+    const check = await verifyUploadUrl(c.req.path, c.req.query());
+    if (check !== "valid") {
+      console.log(`🔒 [Storage] Rejected ${check} URL for ${key}`);
+      return c.json(
+        { error: check === "invalid" ? "Invalid signature" : "This link has expired" },
+        check === "invalid" ? 403 : 410
+      );
+    }
+
+    const file = await storage.get(key);
+    if (!file) {
+      return c.json({ error: "File not found" }, 404);
+    }
+    return c.body(file.data, 200, {
+      "Content-Type": file.contentType,
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, no-store",
+    });
+  } catch (error) {
+    console.error(`❌ [Storage] Failed to read ${key}:`, error);
+    return c.json({ error: "Failed to read file" }, 500);
+  }
+});
 
 // Mount route modules
 console.log("📤 Mounting upload routes at /api/upload");
@@ -76,15 +127,33 @@ app.route("/api/sample", sampleRouter);
 console.log("📝 Mounting notes routes at /api/notes");
 app.route("/api/notes", notesRouter);
 
+console.log("📨 Mounting notification routes at /api/notifications");
+app.route("/api/notifications", notificationsRouter);
+
+console.log("💳 Mounting webhook routes at /api/webhooks");
+app.route("/api/webhooks", webhooksRouter);
+
+console.log("👤 Mounting account routes at /api/me");
+app.route("/api/me", meRouter);
+
+console.log("🏷️ Mounting handle routes at /api/handles");
+app.route("/api/handles", handlesRouter);
+
+console.log("📥 Mounting inbox routes at /api/inbox");
+app.route("/api/inbox", inboxRouter);
+
+console.log("📱 Mounting device routes at /api/devices");
+app.route("/api/devices", devicesRouter);
+
 // ============================================
 // Web view for notes - renders HTML page with Neo-Brutalist style
-// Includes client-side decryption using AES-256-CTR
+// Includes client-side decryption: AES-256-GCM envelopes, AES-256-CTR for legacy notes
 // ============================================
 app.get("/note/:id", async (c) => {
   const id = c.req.param("id");
   console.log(`🌐 [Notes] Web view requested for note: ${id}`);
 
-  const renderPage = (title: string, content: string, bgColor: string, includeDecryption = false, encryptedContent = '', noteId = '') => `
+  const renderPage = (title: string, content: string, bgColor: string, includeDecryption = false, noteId = '') => `
 <!DOCTYPE html>
 <html lang="en">
 <head>
@@ -185,6 +254,28 @@ app.get("/note/:id", async (c) => {
       text-decoration: underline;
       font-weight: 700;
     }
+    .attachments {
+      margin-bottom: 24px;
+    }
+    .attachment {
+      background: #FFFFFF;
+      padding: 16px;
+      margin-bottom: 16px;
+      border: 4px solid #000000;
+      box-shadow: 4px 4px 0 #000000;
+    }
+    .attachment img {
+      display: block;
+      max-width: 100%;
+      margin-bottom: 12px;
+      border: 3px solid #000000;
+    }
+    .attachment-link {
+      color: #000000;
+      font-size: 14px;
+      font-weight: 700;
+      word-break: break-all;
+    }
     .warning-box {
       background: #FF8A00;
       padding: 16px;
@@ -299,6 +390,22 @@ app.get("/note/:id", async (c) => {
       font-weight: 500;
       text-align: center;
     }
+    .passphrase-input {
+      width: 100%;
+      padding: 16px;
+      margin-bottom: 16px;
+      border: 4px solid #000000;
+      box-shadow: 4px 4px 0 #000000;
+      font-family: inherit;
+      font-size: 16px;
+      font-weight: 700;
+      background: #FFFFFF;
+      color: #000000;
+    }
+    .passphrase-input:focus {
+      outline: none;
+      background: #FFE600;
+    }
     .reveal-button {
       background: #FF6B9D;
       width: 100%;
@@ -456,13 +563,107 @@ app.get("/note/:id", async (c) => {
 
     const uint8ArrayToString = (bytes) => new TextDecoder().decode(bytes);
 
-    const decryptContent = (encryptedBase64, keyBase64) => {
-      const key = base64ToUint8Array(keyBase64);
+    // Key proof: HMAC-SHA256 of a fixed message under the encryption key, so the
+    // server can check we hold the key without ever seeing it
+    const deriveKeyProof = async (keyBase64) => {
+      const hmacKey = await crypto.subtle.importKey('raw', base64ToUint8Array(keyBase64), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+      const proof = await crypto.subtle.sign('HMAC', hmacKey, new TextEncoder().encode('${KEY_PROOF_MESSAGE}'));
+      return btoa(String.fromCharCode(...new Uint8Array(proof)));
+    };
+
+    // Passphrase verifier: PBKDF2-SHA256 salted with the raw encryption key (same as mobile app)
+    const derivePassphraseVerifier = async (passphrase, keyBase64) => {
+      const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+      const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToUint8Array(keyBase64), iterations: 100000 },
+        baseKey,
+        256
+      );
+      return btoa(String.fromCharCode(...new Uint8Array(bits)));
+    };
+
+    // Notes encrypted to a public key: unwrap the content key with the reader's private key
+    // (base64 PKCS#8, it never leaves the page). Returns the base64 content key
+    const unwrapContentKey = async (envelope, privateKeyBase64) => {
+      const algorithm = envelope.alg === 'p256' ? { name: 'ECDH', namedCurve: 'P-256' } : { name: 'X25519' };
+      const privateKey = await crypto.subtle.importKey('pkcs8', base64ToUint8Array(privateKeyBase64), algorithm, false, ['deriveBits']);
+      const epk = base64ToUint8Array(envelope.epk);
+      const ephemeralKey = await crypto.subtle.importKey('raw', epk, algorithm, false, []);
+      const shared = await crypto.subtle.deriveBits({ name: algorithm.name, public: ephemeralKey }, privateKey, 256);
+      const hkdfKey = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+      const kek = await crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: epk, info: new TextEncoder().encode('${KEY_WRAP_INFO}') },
+        hkdfKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['decrypt']
+      );
+      const contentKey = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToUint8Array(envelope.nonce), additionalData: new TextEncoder().encode(envelope.keyId) },
+        kek,
+        base64ToUint8Array(envelope.wrappedKey)
+      );
+      return btoa(String.fromCharCode(...new Uint8Array(contentKey)));
+    };
+
+    const decryptionFailed = () => Object.assign(new Error('Decryption failed'), { decryptionFailed: true });
+
+    // Version 1 envelope: version, algorithm and key ID header, then AES-256-GCM over the rest
+    // with the header as additional data, so any change to the bytes fails (src/lib/noteEnvelope.ts)
+    const decryptEnvelope = async (bytes, keyBase64) => {
+      const rawKey = base64ToUint8Array(keyBase64);
+      if (bytes.length <= 38 || bytes[0] !== ${CONTENT_ENVELOPE_VERSION} || bytes[1] !== 1) throw decryptionFailed();
+      const hmacKey = await crypto.subtle.importKey('raw', rawKey, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+      const keyId = new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, new TextEncoder().encode('${KEY_ID_MESSAGE}'))).slice(0, 8);
+      if (keyId.some((byte, i) => byte !== bytes[2 + i])) throw decryptionFailed();
+      const aesKey = await crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['decrypt']);
+      const plaintext = await crypto.subtle
+        .decrypt({ name: 'AES-GCM', iv: bytes.slice(10, 22), additionalData: bytes.slice(0, 10) }, aesKey, bytes.slice(22))
+        .catch(() => { throw decryptionFailed(); });
+      return new Uint8Array(plaintext);
+    };
+
+    // Legacy notes (envelope version 0) are unauthenticated AES-256-CTR: nonce || ciphertext
+    const decryptBytes = async (encryptedBase64, keyBase64, envelopeVersion) => {
       const combined = base64ToUint8Array(encryptedBase64);
+      if (envelopeVersion === ${CONTENT_ENVELOPE_VERSION}) return decryptEnvelope(combined, keyBase64);
+      if (envelopeVersion !== ${LEGACY_CONTENT_VERSION}) throw decryptionFailed();
+      const key = base64ToUint8Array(keyBase64);
       const nonce = combined.slice(0, 12);
       const ciphertext = combined.slice(12);
-      const plaintext = aesCtr(ciphertext, key, nonce);
-      return uint8ArrayToString(plaintext);
+      return aesCtr(ciphertext, key, nonce);
+    };
+
+    const decryptContent = async (encryptedBase64, keyBase64, envelopeVersion) =>
+      uint8ArrayToString(await decryptBytes(encryptedBase64, keyBase64, envelopeVersion));
+
+    // Attachments are decrypted with the same key and format, images get an inline preview
+    const renderAttachments = async (attachments, keyBase64, envelopeVersion) => {
+      const container = document.getElementById('attachments');
+      if (!container || !attachments || attachments.length === 0) return;
+      for (const attachment of attachments) {
+        const meta = JSON.parse(await decryptContent(attachment.meta, keyBase64, envelopeVersion));
+        const name = meta.name || 'attachment';
+        const type = meta.type || 'application/octet-stream';
+        const data = await decryptBytes(attachment.data, keyBase64, envelopeVersion);
+        const url = URL.createObjectURL(new Blob([data], { type }));
+        const item = document.createElement('div');
+        item.className = 'attachment';
+        if (type.startsWith('image/')) {
+          const img = document.createElement('img');
+          img.src = url;
+          img.alt = name;
+          item.appendChild(img);
+        }
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = name;
+        link.className = 'attachment-link';
+        link.textContent = '⬇️ ' + name;
+        item.appendChild(link);
+        container.appendChild(item);
+      }
+      container.style.display = 'block';
     };
 
     const escapeHtml = (text) => {
@@ -480,8 +681,16 @@ app.get("/note/:id", async (c) => {
     // Main reveal and decryption logic
     window.onload = function() {
       const noteId = '${noteId}';
-      const encryptedContent = '${encryptedContent.replace(/'/g, "\\'")}';
-      const encryptionKey = window.location.hash.slice(1);
+      // New links carry the content format next to the key (#v1.<key>, or #v1 when the key is
+      // wrapped to the recipient). The server can't change the fragment, so when it names a
+      // version the envelopeVersion the server sends is ignored and legacy decryption is refused
+      const fragment = window.location.hash.slice(1);
+      const fragmentMatch = /^v(\\d+)(?:\\.(.*))?$/.exec(fragment);
+      const linkVersion = fragmentMatch ? Number(fragmentMatch[1]) : null;
+      let encryptionKey = fragmentMatch ? fragmentMatch[2] || '' : fragment;
+      const envelopeEl = document.getElementById('key-envelope');
+      const keyEnvelope = envelopeEl ? JSON.parse(envelopeEl.textContent) : null;
+      const privateKeyInput = document.getElementById('private-key-input');
 
       const revealSection = document.getElementById('reveal-section');
       const revealBtn = document.getElementById('reveal-btn');
@@ -490,9 +699,17 @@ app.get("/note/:id", async (c) => {
       const noteBoxEl = document.getElementById('note-box');
       const errorEl = document.getElementById('decryption-error');
       const destroyedBox = document.getElementById('destroyed-box');
+      const passphraseInput = document.getElementById('passphrase-input');
 
-      // Check if we have encryption key
-      if (!encryptionKey) {
+      const userError = (message) => Object.assign(new Error(message), { userFacing: true });
+
+      // A key in the link wins over the envelope
+      if (encryptionKey && privateKeyInput) {
+        privateKeyInput.style.display = 'none';
+      }
+
+      // Check if we have encryption key (or can unwrap it)
+      if (!encryptionKey && !keyEnvelope) {
         console.error('[Decryption] No encryption key found in URL hash');
         if (revealSection) revealSection.style.display = 'none';
         if (errorEl) {
@@ -510,36 +727,96 @@ app.get("/note/:id", async (c) => {
           revealBtn.textContent = 'Revealing...';
 
           try {
-            // Call server to mark note as viewed
+            // Public-key step: unwrap the content key before anything is derived from it
+            if (!encryptionKey) {
+              if (!privateKeyInput || !privateKeyInput.value.trim()) {
+                throw userError('Paste your private key to reveal this note');
+              }
+              encryptionKey = await unwrapContentKey(keyEnvelope, privateKeyInput.value.trim()).catch(() => {
+                throw userError("This private key can't open this note");
+              });
+            }
+
+            // Passphrase step: derive the verifier locally, the passphrase never leaves the page
+            let passphraseVerifier;
+            if (passphraseInput) {
+              if (!passphraseInput.value) {
+                throw userError('Enter the passphrase to reveal this note');
+              }
+              passphraseVerifier = await derivePassphraseVerifier(passphraseInput.value, encryptionKey);
+            }
+
+            // Call server to consume a view - the ciphertext is only handed out here
+            const keyProof = await deriveKeyProof(encryptionKey);
             const response = await fetch('/note/' + noteId + '/reveal', {
               method: 'POST',
-              headers: { 'Content-Type': 'application/json' }
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ keyProof, passphraseVerifier })
             });
 
             if (!response.ok) {
+              const failure = await response.json().catch(() => ({}));
+              if (failure.code === 'RATE_LIMITED') {
+                throw userError('Too many attempts. Please wait a moment and try again');
+              }
+              if (failure.code === 'INVALID_KEY_PROOF') {
+                throw userError('This link has the wrong decryption key');
+              }
+              if (failure.code === 'PASSPHRASE_INCORRECT' && failure.attemptsLeft > 0) {
+                throw userError('Wrong passphrase. ' + failure.attemptsLeft + ' attempt' + (failure.attemptsLeft === 1 ? '' : 's') + ' left');
+              }
+              if (failure.code === 'PASSPHRASE_INCORRECT') {
+                // Out of attempts - the note is gone, nothing left to retry
+                if (revealSection) revealSection.style.display = 'none';
+                if (errorEl) {
+                  errorEl.style.display = 'block';
+                  errorEl.querySelector('.error-text').textContent = 'Too many wrong attempts. This note has been destroyed.';
+                }
+                return;
+              }
               throw new Error('Failed to reveal note');
             }
+            const result = await response.json();
 
             // Hide reveal section, show loading
             if (revealSection) revealSection.style.display = 'none';
             if (loadingEl) loadingEl.style.display = 'flex';
 
-            // Decrypt content
-            const decrypted = decryptContent(encryptedContent, encryptionKey);
+            // Decrypt content (envelope notes fail here if anything was tampered with)
+            const envelopeVersion = linkVersion ?? result.envelopeVersion;
+            const decrypted = await decryptContent(result.content, encryptionKey, envelopeVersion);
 
             // Show decrypted content
             if (noteContentEl) noteContentEl.innerHTML = linkifyText(decrypted);
             if (loadingEl) loadingEl.style.display = 'none';
             if (noteBoxEl) noteBoxEl.style.display = 'block';
-            if (destroyedBox) destroyedBox.style.display = 'block';
+            await renderAttachments(result.attachments, encryptionKey, envelopeVersion);
+            if (destroyedBox) {
+              // Multi-view notes survive until their view budget runs out
+              if (result.remainingViews > 0) {
+                destroyedBox.querySelector('.destroyed-text').textContent =
+                  'This note can be viewed ' + result.remainingViews + ' more time' + (result.remainingViews === 1 ? '' : 's');
+              }
+              destroyedBox.style.display = 'block';
+            }
 
           } catch (e) {
             console.error('[Reveal] Failed:', e);
+            if (e.decryptionFailed) {
+              // The view is already used, retrying can't help: show the failure instead of the content
+              if (loadingEl) loadingEl.style.display = 'none';
+              if (noteBoxEl) noteBoxEl.style.display = 'none';
+              if (errorEl) {
+                errorEl.style.display = 'block';
+                errorEl.querySelector('.error-text').textContent = 'Decryption failed';
+              }
+              return;
+            }
             revealBtn.disabled = false;
             revealBtn.innerHTML = '<span>👁️</span> Reveal Secret Note';
             if (errorEl) {
               errorEl.style.display = 'block';
-              errorEl.querySelector('.error-text').textContent = 'Failed to reveal note. Please try again.';
+              errorEl.querySelector('.error-text').textContent = e.userFacing ? e.message : 'Failed to reveal note. Please try again.';
             }
           }
         });
@@ -552,8 +829,9 @@ app.get("/note/:id", async (c) => {
 `;
 
   try {
-    const note = await db.note.findUnique({
-      where: { id },
+    // Notes sent to a @handle are only readable from the recipient's inbox
+    const note = await db.note.findFirst({
+      where: { id, recipientUserId: null },
     });
 
     // Note doesn't exist
@@ -576,6 +854,26 @@ app.get("/note/:id", async (c) => {
         `, "#E74C3C"), 404);
     }
 
+    // Sender revoked the note before it was read
+    if (note.revokedAt) {
+      console.log(`🚫 [Notes] Note revoked by sender: ${id}`);
+      return c.html(renderPage("Note Revoked", `
+        <div class="header">
+          <div class="logo-box">
+            <img src="/uploads/logo-destructnote.png" alt="DestructNote">
+          </div>
+          <div class="header-text">
+            <h1>Note Revoked</h1>
+            <p class="subtitle">The sender destroyed this note before it was read</p>
+          </div>
+        </div>
+        <div class="error-box">
+          <span>🚫</span>
+          <span class="error-text">Revoked by sender</span>
+        </div>
+        `, "#FF6B9D"), 410);
+    }
+
     // Note has already been viewed
     if (note.viewed) {
       console.log(`🔒 [Notes] Note already viewed: ${id}`);
@@ -596,10 +894,43 @@ app.get("/note/:id", async (c) => {
         `, "#FF8A00"), 410);
     }
 
+    // Note expired before anyone read it
+    if (note.expiresAt <= new Date()) {
+      console.log(`⏳ [Notes] Note expired: ${id}`);
+      return c.html(renderPage("Note Expired", `
+        <div class="header">
+          <div class="logo-box">
+            <img src="/uploads/logo-destructnote.png" alt="DestructNote">
+          </div>
+          <div class="header-text">
+            <h1>Note Expired</h1>
+            <p class="subtitle">This note expired before it was read</p>
+          </div>
+        </div>
+        <div class="error-box">
+          <span>⏳</span>
+          <span class="error-text">Time Ran Out</span>
+        </div>
+        `, "#00D4FF"), 410);
+    }
+
     // Note exists and hasn't been viewed - show reveal button first
     // This prevents link preview bots from destroying the note
     console.log(`📝 [Notes] Showing reveal page for note: ${id}`);
 
+    // Notes encrypted to a public key carry their wrapped content key in the page
+    const keyEnvelope = parseKeyEnvelope(note.keyEnvelope);
+
+    // Multi-view notes tell the reader how many views are left
+    const viewsLeft = note.remainingViews;
+    const subtitle = viewsLeft > 1 ? `Self-destructs after ${viewsLeft} more views` : "Self-destructs after viewing";
+    const warning = viewsLeft > 1
+      ? `This note can be read ${viewsLeft} more times before it self-destructs!`
+      : "This note will self-destruct after you read it!";
+    const info = viewsLeft > 1
+      ? `Someone sent you a secret note. Each reveal uses one of the ${viewsLeft} remaining views, after the last one the note will be permanently destroyed.`
+      : "Someone sent you a secret note. Once you reveal it, the note will be permanently destroyed and cannot be viewed again.";
+
     // Return page with reveal button - note is NOT marked as viewed yet
     return c.html(renderPage("Secret Note", `
       <div class="header">
@@ -608,7 +939,7 @@ app.get("/note/:id", async (c) => {
         </div>
         <div class="header-text">
           <h1>Secret Note</h1>
-          <p class="subtitle">Self-destructs after viewing</p>
+          <p class="subtitle">${subtitle}</p>
         </div>
       </div>
       <div class="encryption-badge">
@@ -617,12 +948,20 @@ app.get("/note/:id", async (c) => {
       </div>
       <div class="warning-box">
         <span>⚠️</span>
-        <span class="warning-text">This note will self-destruct after you read it!</span>
+        <span class="warning-text">${warning}</span>
       </div>
       <div id="reveal-section">
         <div class="info-box">
-          <p class="info-text">Someone sent you a secret note. Once you reveal it, the note will be permanently destroyed and cannot be viewed again.</p>
+          <p class="info-text">${info}</p>
         </div>
+        ${keyEnvelope ? `
+        <script id="key-envelope" type="application/json">${JSON.stringify(keyEnvelope).replace(/</g, "\\u003c")}</script>
+        <p class="info-text">Encrypted to your public key ${keyEnvelope.keyId.slice(0, 16)}…</p>
+        <input id="private-key-input" class="passphrase-input" type="password" placeholder="Paste your private key" autocomplete="off">
+        ` : ''}
+        ${note.passphraseHash ? `
+        <input id="passphrase-input" class="passphrase-input" type="password" placeholder="Enter passphrase" autocomplete="off">
+        ` : ''}
         <div class="center">
           <button id="reveal-btn" class="button reveal-button">
             <span>👁️</span> Reveal Secret Note
@@ -633,6 +972,7 @@ app.get("/note/:id", async (c) => {
       <div id="note-box" class="note-box" style="display:none;">
         <p id="note-content" class="note-content"></p>
       </div>
+      <div id="attachments" class="attachments" style="display:none;"></div>
       <div id="decryption-error" class="error-box" style="display:none;">
         <span>⚠️</span>
         <span class="error-text">Decryption failed</span>
@@ -640,7 +980,7 @@ app.get("/note/:id", async (c) => {
       <div id="destroyed-box" class="destroyed-box" style="display:none;">
         <p class="destroyed-text">This note has been destroyed</p>
       </div>
-    `, "#00FF85", true, note.content, id));
+    `, "#00FF85", true, id));
   } catch (error) {
     console.error("❌ [Notes] Error retrieving note:", error);
     return c.html(renderPage("Error", `
@@ -658,50 +998,33 @@ app.get("/note/:id", async (c) => {
 });
 
 // ============================================
-// Reveal endpoint - marks note as viewed when user clicks reveal button
+// Reveal endpoint - consumes a view and returns the ciphertext when user clicks reveal button
 // This prevents link preview bots from destroying notes
 // ============================================
-app.post("/note/:id/reveal", async (c) => {
+app.post("/note/:id/reveal", rateLimit(RATE_LIMITS.readNote), zValidator("json", revealNoteRequestSchema), async (c) => {
   const id = c.req.param("id");
+  const { keyProof, passphraseVerifier } = c.req.valid("json");
   console.log(`👁️ [Notes] Reveal requested for note: ${id}`);
 
   try {
-    const note = await db.note.findUnique({
-      where: { id },
-    });
+    // Read and use up one view in a single atomic step
+    const result = await consumeNote(id, { source: "web", keyProof, passphraseVerifier });
 
-    if (!note) {
-      console.log(`❌ [Notes] Note not found for reveal: ${id}`);
-      return c.json({ error: "Note not found" }, 404);
+    if (result.status !== "consumed") {
+      console.log(`🚫 [Notes] Note not revealed (${result.status}): ${id}`);
+      const failure = consumeFailureResponse(result);
+      return c.json(failure.body, failure.status);
     }
 
-    if (note.viewed) {
-      console.log(`🔒 [Notes] Note already viewed: ${id}`);
-      return c.json({ error: "Note already viewed" }, 410);
+    const { content, envelopeVersion, remainingViews, attachments } = result;
+    await enqueueRevealNotifications(id, "web", remainingViews);
+    if (remainingViews > 0) {
+      console.log(`👁️ [Notes] Note revealed, ${remainingViews} views left: ${id}`);
+    } else {
+      console.log(`💥 [Notes] Note revealed and content destroyed: ${id}`);
     }
 
-    // Mark as viewed (self-destruct)
-    await db.note.update({
-      where: { id },
-      data: { viewed: true },
-    });
-
-    console.log(`💥 [Notes] Note revealed and marked for destruction: ${id}`);
-
-    // Delete the note content after a short delay
-    setTimeout(async () => {
-      try {
-        await db.note.update({
-          where: { id },
-          data: { content: "[DESTROYED]" },
-        });
-        console.log(`🗑️ [Notes] Note content destroyed: ${id}`);
-      } catch {
-        // Note might have been deleted already
-      }
-    }, 5000);
-
-    return c.json({ success: true });
+    return c.json({ success: true, content, envelopeVersion, remainingViews, attachments });
   } catch (error) {
     console.error("❌ [Notes] Error revealing note:", error);
     return c.json({ error: "Failed to reveal note" }, 500);
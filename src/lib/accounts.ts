@@ -0,0 +1,178 @@
+/**
+ * Account-Linked Devices
+ *
+ * A signed-in user can claim deviceIds. A claimed device no longer has usage
+ * of its own: its NoteUsage rows are merged into the account's rows, stored
+ * under the usage key "user:<userId>", so quota and premium follow the account
+ * to every device it claims (reinstalls, new phones). RevenueCat still knows
+ * purchases by deviceId, so entitlement checks ask about all claimed devices.
+ * deviceIds aren't secret: a claim only goes through with the device's secret
+ * (src/lib/deviceSecrets.ts).
+ */
+
+import { db } from "../db";
+import { type Prisma } from "../../generated/prisma";
+import { verifyDeviceSecret } from "./deviceSecrets";
+import { isHigherTier, toPlanTier } from "./plans";
+import { LIFETIME_PERIOD } from "./quota";
+import { type ClaimDevicesRequest, type PlanTier } from "../shared/contracts";
+
+export type UsageOwner = {
+  usageKey: string; // NoteUsage.deviceId of the record that counts this device's notes
+  userId: string | null; // Account that claimed the device
+  deviceIds: string[]; // Devices whose RevenueCat purchases apply to the record
+};
+
+export type ClaimResult = {
+  claimed: string[]; // Newly linked to the account
+  alreadyClaimed: string[]; // Already linked to this account
+  conflicts: string[]; // Linked to another account, left untouched
+  unverified: string[]; // Device secret missing or wrong, left untouched
+  tier: PlanTier; // Account plan after the merge
+  isPremium: boolean;
+};
+
+type PlanState = {
+  isPremium: boolean;
+  tier: string;
+  premiumExpiresAt: Date | null;
+  premiumProvisionalUntil: Date | null;
+};
+
+export const accountUsageKey = (userId: string) => `user:${userId}`;
+
+/**
+ * Find the usage record a device counts against
+ */
+export const resolveUsageOwner = async (
+  deviceId: string,
+  client: Prisma.TransactionClient = db
+): Promise<UsageOwner> => {
+  const claim = await client.deviceClaim.findUnique({ where: { deviceId } });
+  if (!claim) {
+    return { usageKey: deviceId, userId: null, deviceIds: [deviceId] };
+  }
+
+  const devices = await client.deviceClaim.findMany({ where: { userId: claim.userId } });
+  return {
+    usageKey: accountUsageKey(claim.userId),
+    userId: claim.userId,
+    deviceIds: devices.map((device) => device.deviceId),
+  };
+};
+
+/**
+ * Keep the better of two plan states: the higher tier, then the later expiry (null = lifetime)
+ * A confirmed plan beats a provisional one of the same tier
+ */
+const betterPlanState = (current: PlanState, candidate: PlanState): PlanState => {
+  const currentTier = toPlanTier(current.tier);
+  const candidateTier = toPlanTier(candidate.tier);
+  if (isHigherTier(candidateTier, currentTier)) {
+    return candidate;
+  }
+  if (candidateTier !== currentTier || candidateTier === "free") {
+    return current;
+  }
+  if (current.premiumProvisionalUntil && !candidate.premiumProvisionalUntil) {
+    return candidate;
+  }
+  if (!current.premiumExpiresAt) {
+    return current;
+  }
+  return !candidate.premiumExpiresAt || candidate.premiumExpiresAt > current.premiumExpiresAt ? candidate : current;
+};
+
+/**
+ * Link devices to an account, merging their usage and plan into the account record
+ * Notes the devices created without being signed in become owned by the account
+ */
+export const claimDevices = async (userId: string, devices: ClaimDevicesRequest["devices"]): Promise<ClaimResult> => {
+  const usageKey = accountUsageKey(userId);
+
+  return db.$transaction(async (tx) => {
+    const account = await tx.noteUsage.upsert({
+      where: { deviceId_year_month_day: { deviceId: usageKey, ...LIFETIME_PERIOD } },
+      create: { deviceId: usageKey, ...LIFETIME_PERIOD, count: 0, isPremium: false },
+      update: {},
+    });
+    // Serialize with note creation and other claims for this account
+    await tx.$queryRaw`SELECT "id" FROM "note_usage" WHERE "id" = ${account.id} FOR UPDATE`;
+
+    const result: Pick<ClaimResult, "claimed" | "alreadyClaimed" | "conflicts" | "unverified"> = {
+      claimed: [],
+      alreadyClaimed: [],
+      conflicts: [],
+      unverified: [],
+    };
+    let plan: PlanState = account;
+    let lifetimeCount = 0;
+    let provisionalGrantedAt = account.premiumProvisionalGrantedAt;
+
+    for (const { deviceId, deviceSecret } of devices) {
+      if (!(await verifyDeviceSecret(deviceId, deviceSecret, tx))) {
+        result.unverified.push(deviceId);
+        continue;
+      }
+
+      const existing = await tx.deviceClaim.findUnique({ where: { deviceId } });
+      if (existing) {
+        (existing.userId === userId ? result.alreadyClaimed : result.conflicts).push(deviceId);
+        continue;
+      }
+
+      await tx.deviceClaim.create({ data: { deviceId, userId } });
+
+      // Lock the device's rows, a note being created from it right now finishes first
+      const rows = await tx.$queryRaw<
+        (PlanState & {
+          id: string;
+          year: number;
+          month: number;
+          day: number;
+          count: number;
+          premiumProvisionalGrantedAt: Date | null;
+        })[]
+      >`
+        SELECT "id", "year", "month", "day", "count", "isPremium", "tier", "premiumExpiresAt", "premiumProvisionalUntil",
+          "premiumProvisionalGrantedAt"
+        FROM "note_usage" WHERE "deviceId" = ${deviceId}
+        FOR UPDATE
+      `;
+      for (const row of rows) {
+        if (row.year === 0 && row.month === 0 && row.day === 0) {
+          plan = betterPlanState(plan, row);
+          lifetimeCount += row.count;
+          // A grace period used on any of the devices counts for the account
+          const grantedAt = row.premiumProvisionalGrantedAt;
+          if (grantedAt && (!provisionalGrantedAt || grantedAt > provisionalGrantedAt)) {
+            provisionalGrantedAt = grantedAt;
+          }
+        } else {
+          await tx.noteUsage.upsert({
+            where: { deviceId_year_month_day: { deviceId: usageKey, year: row.year, month: row.month, day: row.day } },
+            create: { deviceId: usageKey, year: row.year, month: row.month, day: row.day, count: row.count },
+            update: { count: { increment: row.count } },
+          });
+        }
+      }
+      await tx.noteUsage.deleteMany({ where: { deviceId } });
+      await tx.note.updateMany({ where: { deviceId, userId: null }, data: { userId } });
+      result.claimed.push(deviceId);
+    }
+
+    await tx.noteUsage.update({
+      where: { id: account.id },
+      data: {
+        count: { increment: lifetimeCount },
+        isPremium: plan.isPremium,
+        tier: plan.tier,
+        premiumExpiresAt: plan.premiumExpiresAt,
+        premiumProvisionalUntil: plan.premiumProvisionalUntil,
+        premiumProvisionalGrantedAt: provisionalGrantedAt,
+      },
+    });
+
+    return { ...result, tier: toPlanTier(plan.tier), isPremium: plan.isPremium };
+  });
+};
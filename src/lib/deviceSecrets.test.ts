@@ -0,0 +1,78 @@
+/**
+ * Device secrets for existing installs
+ *
+ * A device that had notes and premium before secrets existed proves itself
+ * with the manage token of one of those notes, then claims into an account
+ * like any other device. Runs against DATABASE_URL (see src/test/database.ts).
+ */
+
+import { expect, test } from "bun:test";
+import { db } from "../db";
+import { describeWithDatabase } from "../test/database";
+import { accountUsageKey, claimDevices } from "./accounts";
+import { issueDeviceSecret } from "./deviceSecrets";
+import { createManageToken } from "./noteManageToken";
+import { LIFETIME_PERIOD } from "./quota";
+
+const deviceId = `device-secret-test-${crypto.randomUUID()}`;
+const userId = `device-secret-test-${crypto.randomUUID()}`;
+
+// A premium install with a note, as it was before secrets: the migration copied its proof
+const createLegacyDevice = async () => {
+  const manageToken = createManageToken();
+  await db.note.create({
+    data: {
+      content: "legacy-device-test",
+      deviceId,
+      manageTokenHash: manageToken.hash,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    },
+  });
+  await db.legacyDeviceProof.create({ data: { deviceId, manageTokenHash: manageToken.hash } });
+  await db.noteUsage.createMany({
+    data: [
+      { deviceId, ...LIFETIME_PERIOD, count: 4, isPremium: true, tier: "pro" },
+      { deviceId, year: 2026, month: 10, day: 0, count: 4 },
+    ],
+  });
+  return manageToken.token;
+};
+
+const cleanup = async () => {
+  await db.note.deleteMany({ where: { deviceId } });
+  await db.noteUsage.deleteMany({ where: { deviceId: { in: [deviceId, accountUsageKey(userId)] } } });
+  await db.deviceSecret.deleteMany({ where: { deviceId } });
+  await db.legacyDeviceProof.deleteMany({ where: { deviceId } });
+  await db.user.deleteMany({ where: { id: userId } });
+};
+
+describeWithDatabase("issueDeviceSecret for existing installs", cleanup, () => {
+  test("a device with notes and premium gets its secret with a manage token and can be claimed", async () => {
+    const manageToken = await createLegacyDevice();
+    await db.user.create({ data: { id: userId, email: `${userId}@example.com` } });
+
+    // Knowing the deviceId isn't enough, neither is a token of some other note
+    expect(await issueDeviceSecret(deviceId)).toEqual({ status: "in_use" });
+    expect(await issueDeviceSecret(deviceId, createManageToken().token)).toEqual({ status: "in_use" });
+
+    const issued = await issueDeviceSecret(deviceId, manageToken);
+    if (issued.status !== "issued") throw new Error(`Expected a secret, got ${issued.status}`);
+    expect(await issueDeviceSecret(deviceId, manageToken)).toEqual({ status: "already_issued" });
+    expect(await db.legacyDeviceProof.count({ where: { deviceId } })).toBe(0);
+
+    const result = await claimDevices(userId, [{ deviceId, deviceSecret: issued.secret }]);
+    expect(result).toMatchObject({ claimed: [deviceId], unverified: [], tier: "pro", isPremium: true });
+
+    const usageKey = accountUsageKey(userId);
+    const lifetime = await db.noteUsage.findUniqueOrThrow({
+      where: { deviceId_year_month_day: { deviceId: usageKey, ...LIFETIME_PERIOD } },
+    });
+    expect(lifetime).toMatchObject({ count: 4, isPremium: true, tier: "pro" });
+    const month = await db.noteUsage.findUniqueOrThrow({
+      where: { deviceId_year_month_day: { deviceId: usageKey, year: 2026, month: 10, day: 0 } },
+    });
+    expect(month.count).toBe(4);
+    expect(await db.noteUsage.count({ where: { deviceId } })).toBe(0);
+    expect((await db.note.findFirstOrThrow({ where: { deviceId } })).userId).toBe(userId);
+  });
+});
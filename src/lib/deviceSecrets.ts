@@ -0,0 +1,123 @@
+/**
+ * Device Secrets
+ *
+ * deviceIds identify installs but aren't secret, so anything that hands a
+ * device's notes, plan or read notifications to someone else needs proof of
+ * possession. The app asks for a random secret on first use and keeps it
+ * next to the deviceId; only its SHA-256 hash is stored. A secret is issued
+ * once per device. A device that already has something worth taking over
+ * (notes, premium state or an account link) only gets one with the manage
+ * token of a note it created before secrets existed (LegacyDeviceProof), so a
+ * caller who only knows the deviceId can't get one later.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { db } from "../db";
+import { type Prisma } from "../../generated/prisma";
+import { hashManageToken } from "./noteManageToken";
+import { LIFETIME_PERIOD } from "./quota";
+import { getPremiumEntitlement, isRevenueCatConfigured } from "./revenuecat";
+
+export type IssueDeviceSecretResult =
+  | { status: "issued"; secret: string }
+  | { status: "already_issued" } // The device got its secret earlier
+  | { status: "in_use" } // Device already has notes, a plan or an account, and no valid legacy proof
+  | { status: "unavailable" }; // RevenueCat couldn't say whether the device bought premium
+
+const hashSecret = (secret: string): Buffer => createHash("sha256").update(secret).digest();
+
+/**
+ * Whether the device already owns something a new secret would unlock
+ */
+const hasDeviceState = async (deviceId: string): Promise<boolean | "unknown"> => {
+  const [claim, note, usage] = await Promise.all([
+    db.deviceClaim.findUnique({ where: { deviceId }, select: { deviceId: true } }),
+    db.note.findFirst({ where: { deviceId }, select: { id: true } }),
+    db.noteUsage.findUnique({
+      where: { deviceId_year_month_day: { deviceId, ...LIFETIME_PERIOD } },
+      select: { isPremium: true, tier: true, premiumProvisionalUntil: true },
+    }),
+  ]);
+  if (claim || note) {
+    return true;
+  }
+  if (usage && (usage.isPremium || usage.tier !== "free" || usage.premiumProvisionalUntil)) {
+    return true;
+  }
+
+  // RevenueCat knows purchases by deviceId, claiming the device would carry them over
+  if (isRevenueCatConfigured()) {
+    const entitlement = await getPremiumEntitlement(deviceId);
+    if (entitlement.status === "unavailable") {
+      return "unknown";
+    }
+    return entitlement.status === "active";
+  }
+  return false;
+};
+
+/**
+ * Whether the manage token belongs to a note the device created before device secrets
+ */
+const hasLegacyProof = async (deviceId: string, manageToken: string): Promise<boolean> => {
+  const proof = await db.legacyDeviceProof.findUnique({
+    where: { deviceId_manageTokenHash: { deviceId, manageTokenHash: hashManageToken(manageToken) } },
+    select: { deviceId: true },
+  });
+  return !!proof;
+};
+
+/**
+ * Issue the device's secret, once: on first use, or for an existing install
+ * that shows the manage token of one of its earlier notes
+ */
+export const issueDeviceSecret = async (deviceId: string, manageToken?: string): Promise<IssueDeviceSecretResult> => {
+  if (await db.deviceSecret.findUnique({ where: { deviceId }, select: { deviceId: true } })) {
+    return { status: "already_issued" };
+  }
+
+  const proven = manageToken !== undefined && (await hasLegacyProof(deviceId, manageToken));
+  if (!proven) {
+    const state = await hasDeviceState(deviceId);
+    if (state === "unknown") {
+      return { status: "unavailable" };
+    }
+    if (state) {
+      return { status: "in_use" };
+    }
+  }
+
+  const secret = randomBytes(32).toString("base64url");
+  try {
+    await db.$transaction([
+      db.deviceSecret.create({ data: { deviceId, secretHash: hashSecret(secret).toString("hex") } }),
+      // The secret replaces the proofs, they can't be used for a second one
+      db.legacyDeviceProof.deleteMany({ where: { deviceId } }),
+    ]);
+  } catch (error: any) {
+    // Unique violation: a concurrent request got the secret first
+    if (error?.code === "P2002") {
+      return { status: "already_issued" };
+    }
+    throw error;
+  }
+  return { status: "issued", secret };
+};
+
+/**
+ * Check a presented device secret against the stored hash in constant time
+ * Devices that never got a secret can't prove anything
+ */
+export const verifyDeviceSecret = async (
+  deviceId: string,
+  secret: string,
+  client: Prisma.TransactionClient = db
+): Promise<boolean> => {
+  const stored = await client.deviceSecret.findUnique({ where: { deviceId } });
+  if (!stored) {
+    return false;
+  }
+  const expected = Buffer.from(stored.secretHash, "hex");
+  const actual = hashSecret(secret);
+  return expected.length === actual.length && timingSafeEqual(actual, expected);
+};
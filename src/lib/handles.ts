@@ -0,0 +1,73 @@
+/**
+ * Handles
+ *
+ * Notes sent to @handle are pinned to the recipient's account when they are
+ * sent, but senders keep typing the handle. If a rename released the old one
+ * right away, anyone could pick it up and receive notes meant for its previous
+ * owner. A released handle is therefore held for its previous owner (who can
+ * take it back) for HANDLE_RESERVATION_MS, and a user can only rename once per
+ * HANDLE_RENAME_COOLDOWN_MS so handles can't be hoarded through renames.
+ */
+
+import { db } from "../db";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const HANDLE_RESERVATION_MS = 180 * DAY_MS;
+export const HANDLE_RENAME_COOLDOWN_MS = 30 * DAY_MS;
+
+export type RegisterHandleResult =
+  | { status: "registered" }
+  | { status: "unchanged" } // Already the user's handle
+  | { status: "taken" } // Another user has it, or it is held for its previous owner
+  | { status: "cooldown"; retryAt: Date }; // Renamed too recently
+
+/**
+ * Register the user's first handle, or rename it
+ * Throws a P2002 unique violation if another user registers the same handle concurrently
+ */
+export const registerHandle = async (userId: string, handle: string): Promise<RegisterHandleResult> => {
+  const now = new Date();
+
+  return db.$transaction(async (tx) => {
+    const profile = await tx.profile.findUnique({ where: { userId } });
+    if (profile?.handle === handle) {
+      return { status: "unchanged" };
+    }
+
+    const released = await tx.releasedHandle.findUnique({ where: { handle } });
+    const heldForPreviousOwner =
+      !!released && released.userId !== userId && released.releasedAt.getTime() + HANDLE_RESERVATION_MS > now.getTime();
+    if (heldForPreviousOwner) {
+      return { status: "taken" };
+    }
+
+    if (profile) {
+      const lastRename = await tx.releasedHandle.findFirst({
+        where: { userId },
+        orderBy: { releasedAt: "desc" },
+      });
+      const retryAt = lastRename && new Date(lastRename.releasedAt.getTime() + HANDLE_RENAME_COOLDOWN_MS);
+      if (retryAt && retryAt > now) {
+        return { status: "cooldown", retryAt };
+      }
+
+      // Hold the old handle for this user
+      await tx.releasedHandle.upsert({
+        where: { handle: profile.handle },
+        create: { handle: profile.handle, userId, releasedAt: now },
+        update: { userId, releasedAt: now },
+      });
+    }
+
+    // Taking the handle ends its reservation (the user's own, or one that ran out)
+    if (released) {
+      await tx.releasedHandle.delete({ where: { handle } });
+    }
+    await tx.profile.upsert({
+      where: { userId },
+      create: { userId, handle },
+      update: { handle },
+    });
+    return { status: "registered" };
+  });
+};
@@ -0,0 +1,105 @@
+/**
+ * Idempotent Note Creation
+ *
+ * A retried POST /api/notes with the same Idempotency-Key and deviceId gets
+ * the original response back instead of creating (and paying for) another
+ * note. The response holds the manage token, so it is stored sealed with
+ * AES-256-GCM under a key derived from the Idempotency-Key, and the
+ * Idempotency-Key itself is only stored as a hash: the database alone can't
+ * reveal manage tokens.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from "node:crypto";
+import { db } from "../db";
+import { type Prisma } from "../../generated/prisma";
+
+export const IDEMPOTENCY_RETENTION_MS = 24 * 60 * 60 * 1000; // Retries are answered for 24 hours
+
+export type IdempotencyLookup<T> =
+  | { status: "miss" }
+  | { status: "replay"; response: T }
+  | { status: "conflict" }; // Same key, different request body
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest("hex");
+
+const sealingKey = (idempotencyKey: string) =>
+  Buffer.from(hkdfSync("sha256", idempotencyKey, "", "destructnote:idempotency", 32));
+
+const seal = (idempotencyKey: string, response: unknown): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", sealingKey(idempotencyKey), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(response), "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+};
+
+const open = <T>(idempotencyKey: string, sealed: string): T => {
+  const bytes = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", sealingKey(idempotencyKey), bytes.subarray(0, 12));
+  decipher.setAuthTag(bytes.subarray(12, 28));
+  const plaintext = Buffer.concat([decipher.update(bytes.subarray(28)), decipher.final()]);
+  return JSON.parse(plaintext.toString("utf8")) as T;
+};
+
+/**
+ * Fingerprint of a validated request body
+ */
+export const hashRequest = (body: unknown): string => sha256(JSON.stringify(body));
+
+/**
+ * Find the stored response for a retried request
+ */
+export const findIdempotentResponse = async <T>(
+  deviceId: string,
+  idempotencyKey: string,
+  requestHash: string
+): Promise<IdempotencyLookup<T>> => {
+  const where = { deviceId_keyHash: { deviceId, keyHash: sha256(idempotencyKey) } };
+  const record = await db.idempotencyKey.findUnique({ where });
+
+  if (!record) {
+    return { status: "miss" };
+  }
+  if (record.expiresAt <= new Date()) {
+    await db.idempotencyKey.deleteMany({ where: { deviceId, keyHash: record.keyHash } });
+    return { status: "miss" };
+  }
+  if (record.requestHash !== requestHash) {
+    return { status: "conflict" };
+  }
+  return { status: "replay", response: open<T>(idempotencyKey, record.response) };
+};
+
+/**
+ * Store a response inside the transaction that produced it
+ * A concurrent request with the same key fails this insert (P2002) and rolls back
+ */
+export const storeIdempotentResponse = async (
+  tx: Prisma.TransactionClient,
+  deviceId: string,
+  idempotencyKey: string,
+  requestHash: string,
+  response: unknown
+): Promise<void> => {
+  await tx.idempotencyKey.create({
+    data: {
+      deviceId,
+      keyHash: sha256(idempotencyKey),
+      requestHash,
+      response: seal(idempotencyKey, response),
+      expiresAt: new Date(Date.now() + IDEMPOTENCY_RETENTION_MS),
+    },
+  });
+};
+
+/**
+ * Delete stored responses past the retention window
+ */
+export const cleanupIdempotencyKeys = async (): Promise<number> => {
+  try {
+    const result = await db.idempotencyKey.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    return result.count;
+  } catch (error) {
+    console.error("❌ [Cleanup] Failed to delete expired idempotency keys:", error);
+    return 0;
+  }
+};
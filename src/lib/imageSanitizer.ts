@@ -0,0 +1,137 @@
+/**
+ * Image Sanitizer
+ *
+ * Uploads are identified by their magic bytes instead of the client-declared
+ * type or file name, so a file can't be stored as something it isn't.
+ * JPEG and PNG files are also rewritten without EXIF/XMP/IPTC metadata
+ * (camera details, GPS coordinates...) before they are saved.
+ */
+
+export type DetectedImage = {
+  mime: "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+  extension: ".jpg" | ".png" | ".gif" | ".webp";
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+  bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (text: string): number[] => Array.from(text, (char) => char.charCodeAt(0));
+
+/**
+ * Detect the real image format from the file's leading bytes
+ * Returns null for anything that isn't an allowed image format
+ */
+export const detectImageType = (bytes: Uint8Array): DetectedImage | null => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return { mime: "image/jpeg", extension: ".jpg" };
+  }
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { mime: "image/png", extension: ".png" };
+  }
+  if (startsWith(bytes, ascii("GIF87a")) || startsWith(bytes, ascii("GIF89a"))) {
+    return { mime: "image/gif", extension: ".gif" };
+  }
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) {
+    return { mime: "image/webp", extension: ".webp" };
+  }
+  return null;
+};
+
+// JPEG segments that carry metadata: APP1 (EXIF/XMP), APP13 (IPTC) and comments
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe]);
+
+/**
+ * Drop metadata segments from a JPEG, copying image data after SOS untouched
+ * Returns null if the segment structure is malformed
+ */
+const stripJpegMetadata = (bytes: Uint8Array): Uint8Array | null => {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)]; // SOI
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[offset + 1]!;
+
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+
+    // Start of scan: the rest is entropy-coded image data
+    if (marker === 0xda) {
+      parts.push(bytes.subarray(offset));
+      return concat(parts);
+    }
+
+    const length = (bytes[offset + 2]! << 8) | bytes[offset + 3]!;
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) {
+      return null;
+    }
+    if (!JPEG_METADATA_MARKERS.has(marker)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  return null;
+};
+
+// PNG chunks that carry metadata: EXIF, text (including XMP in iTXt) and timestamps
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"]);
+
+/**
+ * Drop metadata chunks from a PNG
+ * Returns null if the chunk structure is malformed
+ */
+const stripPngMetadata = (bytes: Uint8Array): Uint8Array | null => {
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)]; // Signature
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length; // length + type + data + CRC
+    if (end > bytes.length) {
+      return null;
+    }
+    if (!PNG_METADATA_CHUNKS.has(type)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+    if (type === "IEND") {
+      return concat(parts);
+    }
+  }
+
+  return null;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+/**
+ * Strip metadata from JPEG and PNG images (GIF and WebP are stored as-is)
+ * Returns null if the file claims to be JPEG/PNG but can't be parsed
+ * Note: this also drops the EXIF orientation tag
+ */
+export const stripImageMetadata = (bytes: Uint8Array, image: DetectedImage): Uint8Array | null => {
+  if (image.mime === "image/jpeg") {
+    return stripJpegMetadata(bytes);
+  }
+  if (image.mime === "image/png") {
+    return stripPngMetadata(bytes);
+  }
+  return bytes;
+};
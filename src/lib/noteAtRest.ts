@@ -0,0 +1,140 @@
+/**
+ * Note Encryption at Rest
+ *
+ * A second layer under the client's encryption, so database rows and backups
+ * alone don't hold readable ciphertext. Every note gets a random data key that
+ * seals its content and attachments with AES-256-GCM; the data key is stored
+ * wrapped by a master key, and Note.keyId names that master key. Burning a note
+ * drops its wrapped data key along with the content.
+ *
+ * Master keys come from NOTE_MASTER_KEYS and/or NOTE_MASTER_KEYS_FILE as
+ * "keyId:base64 key" entries. The first one wraps new data keys, the others are
+ * only kept to unwrap. Rotation (src/scripts/rotateNoteKeys.ts):
+ *   1. put the new key first, keep the old one listed, restart
+ *   2. run `bun run rotate-keys`, which re-wraps data keys (not content) row by row
+ *   3. once it reports no rows left under the old key, remove that key everywhere;
+ *      backups taken with it can no longer be decrypted
+ * Without master keys notes are stored as sent (keyId null), like before.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { env } from "../env";
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Parts of a note sealed under its data key, bound to their purpose
+export type SealedPart = "content" | "attachment-data" | "attachment-meta";
+
+export type NoteKeyColumns = {
+  keyId: string | null; // Master key that wrapped the data key, null when stored as sent
+  wrappedDataKey: string | null;
+};
+
+/**
+ * Parse "keyId:base64" entries, throwing on anything malformed so a bad key
+ * stops the server instead of silently writing unreadable rows
+ */
+const parseMasterKeys = (entries: string[]): [string, Buffer][] =>
+  entries
+    .map((entry) => entry.trim())
+    .filter((entry) => entry && !entry.startsWith("#"))
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const keyId = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), "base64");
+      if (separator < 1 || !/^[\w.-]{1,64}$/.test(keyId) || key.length !== 32) {
+        throw new Error(`Invalid note master key entry "${keyId || entry.slice(0, 8)}…": expected keyId:<base64 32-byte key>`);
+      }
+      return [keyId, key];
+    });
+
+const loadMasterKeys = (): Map<string, Buffer> => {
+  const entries = [
+    ...(env.NOTE_MASTER_KEYS?.split(",") ?? []),
+    ...(env.NOTE_MASTER_KEYS_FILE ? readFileSync(env.NOTE_MASTER_KEYS_FILE, "utf8").split("\n") : []),
+  ];
+  return new Map(parseMasterKeys(entries));
+};
+
+const masterKeys = loadMasterKeys();
+const currentKeyId: string | null = masterKeys.keys().next().value ?? null;
+
+const seal = (key: Buffer, plaintext: Uint8Array, aad: string): Buffer => {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  return Buffer.concat([iv, cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+};
+
+const open = (key: Buffer, sealed: Uint8Array, aad: string): Buffer => {
+  const bytes = Buffer.from(sealed);
+  const decipher = createDecipheriv("aes-256-gcm", key, bytes.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(bytes.subarray(bytes.length - TAG_BYTES));
+  return Buffer.concat([decipher.update(bytes.subarray(IV_BYTES, bytes.length - TAG_BYTES)), decipher.final()]);
+};
+
+const masterKey = (keyId: string): Buffer => {
+  const key = masterKeys.get(keyId);
+  if (!key) {
+    throw new Error(`Note master key "${keyId}" is not loaded (destroyed or missing from NOTE_MASTER_KEYS)`);
+  }
+  return key;
+};
+
+export const getCurrentMasterKeyId = (): string | null => currentKeyId;
+
+// Every loaded master key, the current one first
+export const getMasterKeyIds = (): string[] => Array.from(masterKeys.keys());
+
+/**
+ * New data key for a note, or null when encryption at rest is off
+ */
+export const createDataKey = (): (NoteKeyColumns & { dataKey: Buffer }) | null => {
+  if (!currentKeyId) {
+    return null;
+  }
+  const dataKey = randomBytes(32);
+  const wrappedDataKey = seal(masterKey(currentKeyId), dataKey, `data-key:${currentKeyId}`).toString("base64");
+  return { dataKey, keyId: currentKeyId, wrappedDataKey };
+};
+
+/**
+ * Unwrap a note's data key, null for notes stored as sent
+ */
+export const openDataKey = ({ keyId, wrappedDataKey }: NoteKeyColumns): Buffer | null =>
+  keyId && wrappedDataKey ? open(masterKey(keyId), Buffer.from(wrappedDataKey, "base64"), `data-key:${keyId}`) : null;
+
+/**
+ * Re-wrap a data key under the current master key (the content stays as it is)
+ */
+export const rewrapDataKey = (columns: NoteKeyColumns): NoteKeyColumns => {
+  const dataKey = openDataKey(columns);
+  if (!dataKey || !currentKeyId) {
+    throw new Error("Nothing to re-wrap: the note has no data key or no master key is configured");
+  }
+  return {
+    keyId: currentKeyId,
+    wrappedDataKey: seal(masterKey(currentKeyId), dataKey, `data-key:${currentKeyId}`).toString("base64"),
+  };
+};
+
+/**
+ * Seal a text column (content, attachment meta), stored as base64
+ */
+export const sealText = (dataKey: Buffer | null, part: SealedPart, text: string): string =>
+  dataKey ? seal(dataKey, Buffer.from(text, "utf8"), part).toString("base64") : text;
+
+export const openText = (dataKey: Buffer | null, part: SealedPart, stored: string): string =>
+  dataKey ? open(dataKey, Buffer.from(stored, "base64"), part).toString("utf8") : stored;
+
+/**
+ * Seal a binary column (attachment data)
+ */
+export const sealBytes = (dataKey: Buffer | null, part: SealedPart, bytes: Uint8Array): Uint8Array<ArrayBuffer> =>
+  new Uint8Array(dataKey ? seal(dataKey, bytes, part) : bytes);
+
+export const openBytes = (dataKey: Buffer | null, part: SealedPart, stored: Uint8Array): Uint8Array<ArrayBuffer> =>
+  new Uint8Array(dataKey ? open(dataKey, stored, part) : stored);
@@ -0,0 +1,52 @@
+/**
+ * Note Attachments
+ *
+ * Attachments are encrypted on the client with the note's key and stored as
+ * opaque blobs linked to the note. The server never sees file names or types
+ * (they travel encrypted in `meta`). Blobs are only handed out by the reveal
+ * flow and are deleted when the note's last view is used, when the note is
+ * burned or revoked, and by cascade when the note row is deleted.
+ */
+
+import { db } from "../db";
+import { type NoteAttachmentInput } from "../shared/contracts";
+
+export type RevealedAttachment = {
+  id: string;
+  data: string; // base64 ciphertext
+  meta: string; // base64 encrypted JSON { name, type }
+};
+
+/**
+ * Decode base64 attachments for storage
+ * Returns null if any attachment is larger than the plan's maxBytes
+ */
+export const decodeAttachments = (
+  attachments: NoteAttachmentInput[],
+  maxBytes: number
+): { data: Uint8Array<ArrayBuffer>; meta: string; size: number }[] | null => {
+  const decoded = attachments.map(({ data, meta }) => {
+    const bytes = Buffer.from(data, "base64");
+    return { data: new Uint8Array(bytes), meta, size: bytes.length };
+  });
+  return decoded.every((attachment) => attachment.size > 0 && attachment.size <= maxBytes)
+    ? decoded
+    : null;
+};
+
+/**
+ * Encode stored attachments for a reveal response
+ */
+export const encodeAttachments = (attachments: { id: string; data: Uint8Array; meta: string }[]): RevealedAttachment[] =>
+  attachments.map(({ id, data, meta }) => ({ id, data: Buffer.from(data).toString("base64"), meta }));
+
+/**
+ * Delete every attachment of a note (used when a note is burned without a final reveal)
+ */
+export const destroyNoteAttachments = async (noteId: string): Promise<number> => {
+  const { count } = await db.noteAttachment.deleteMany({ where: { noteId } });
+  if (count > 0) {
+    console.log(`🗑️ [Attachments] Destroyed ${count} attachments of note: ${noteId}`);
+  }
+  return count;
+};
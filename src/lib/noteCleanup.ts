@@ -1,52 +1,89 @@
 /**
  * Note Cleanup Utility
  *
- * Automatically deletes unread notes that are older than 30 days.
+ * Unread notes are wiped once they pass their own expiresAt: content, data key,
+ * key envelope and attachments go, but the row stays as a tombstone so readers
+ * still get EXPIRED and senders still see the status. Tombstones are deleted
+ * NOTE_TOMBSTONE_RETENTION_MS after the expiry.
+ * Also forgets used single-use upload URLs, rate limit windows and idempotency keys once
+ * they have expired, and daily quota buckets older than any rolling window.
  * This runs periodically to keep the database clean.
  */
 
 import { db } from "../db";
+import { DESTROYED_CONTENT } from "./noteConsumption";
+import { cleanupConsumedSignedUrls } from "./signedUrls";
+import { cleanupRateLimitBuckets } from "./rateLimit";
+import { cleanupDailyBuckets } from "./quota";
+import { cleanupIdempotencyKeys } from "./idempotency";
 
-const DAYS_UNTIL_EXPIRY = 30;
-const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // Run every hour
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // Run every 5 minutes (shortest note TTL)
+export const NOTE_TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // Expired notes answer EXPIRED for 30 days
 
 /**
- * Delete all unread notes older than 30 days
+ * Wipe unread notes whose expiry has passed, and delete their tombstones once retention is over
+ * Returns how many notes were wiped or deleted
  */
 export const cleanupExpiredNotes = async (): Promise<number> => {
-  const expiryDate = new Date();
-  expiryDate.setDate(expiryDate.getDate() - DAYS_UNTIL_EXPIRY);
-
   try {
-    const result = await db.note.deleteMany({
-      where: {
-        viewed: false,
-        createdAt: {
-          lt: expiryDate,
+    const now = new Date();
+    const expired = { viewed: false, expiresAt: { lt: now } };
+
+    // Expired notes can't be consumed anymore (see noteConsumption.ts), so nothing races with this
+    const wiped = await db.$transaction(async (tx) => {
+      await tx.noteAttachment.deleteMany({ where: { note: expired } });
+      const { count } = await tx.note.updateMany({
+        where: { ...expired, content: { not: DESTROYED_CONTENT } },
+        data: {
+          content: DESTROYED_CONTENT,
+          keyId: null,
+          wrappedDataKey: null,
+          keyEnvelope: null,
+          passphraseHash: null,
+          keyCommitment: null,
         },
-      },
+      });
+      return count;
     });
 
-    if (result.count > 0) {
-      console.log(`🧹 [Cleanup] Deleted ${result.count} expired unread notes (older than ${DAYS_UNTIL_EXPIRY} days)`);
+    const deleted = await db.note.deleteMany({
+      where: { viewed: false, expiresAt: { lt: new Date(now.getTime() - NOTE_TOMBSTONE_RETENTION_MS) } },
+    });
+
+    if (wiped > 0) {
+      console.log(`🧹 [Cleanup] Wiped ${wiped} expired unread notes`);
+    }
+    if (deleted.count > 0) {
+      console.log(`🧹 [Cleanup] Deleted ${deleted.count} expired note tombstones`);
     }
 
-    return result.count;
+    return wiped + deleted.count;
   } catch (error) {
     console.error("❌ [Cleanup] Failed to delete expired notes:", error);
     return 0;
   }
 };
 
+/**
+ * Run every cleanup task once
+ */
+const runCleanup = async (): Promise<void> => {
+  await cleanupExpiredNotes();
+  await cleanupConsumedSignedUrls();
+  await cleanupRateLimitBuckets();
+  await cleanupDailyBuckets();
+  await cleanupIdempotencyKeys();
+};
+
 /**
  * Start the periodic cleanup job
  */
 export const startCleanupJob = (): ReturnType<typeof setInterval> => {
-  console.log(`🧹 [Cleanup] Starting cleanup job (runs every hour, deletes unread notes older than ${DAYS_UNTIL_EXPIRY} days)`);
+  console.log("🧹 [Cleanup] Starting cleanup job (runs every 5 minutes, wipes unread notes past their expiry)");
 
   // Run immediately on startup
-  cleanupExpiredNotes();
+  runCleanup();
 
   // Then run periodically
-  return setInterval(cleanupExpiredNotes, CLEANUP_INTERVAL_MS);
+  return setInterval(runCleanup, CLEANUP_INTERVAL_MS);
 };
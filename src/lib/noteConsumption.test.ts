@@ -0,0 +1,63 @@
+/**
+ * Note Consumption concurrency
+ *
+ * Fires parallel reads at one note and checks the locked UPDATE hands out
+ * exactly the views the sender allowed. Runs against DATABASE_URL (see
+ * src/test/database.ts).
+ */
+
+import { expect, test } from "bun:test";
+import { db } from "../db";
+import { describeWithDatabase } from "../test/database";
+import { consumeNote, DESTROYED_CONTENT } from "./noteConsumption";
+
+const PARALLEL_READS = 12;
+
+const createdNoteIds: string[] = [];
+
+const createNote = async (maxViews: number) => {
+  const note = await db.note.create({
+    data: {
+      content: "concurrency-test",
+      maxViews,
+      remainingViews: maxViews,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    },
+  });
+  createdNoteIds.push(note.id);
+  return note.id;
+};
+
+const readInParallel = (id: string) =>
+  Promise.all(Array.from({ length: PARALLEL_READS }, () => consumeNote(id, { source: "api" })));
+
+const cleanup = () => db.note.deleteMany({ where: { id: { in: createdNoteIds } } });
+
+describeWithDatabase("consumeNote under concurrent reads", cleanup, () => {
+  test("a single-view note is revealed exactly once", async () => {
+    const id = await createNote(1);
+
+    const results = await readInParallel(id);
+    const consumed = results.filter((result) => result.status === "consumed");
+
+    expect(consumed).toHaveLength(1);
+    expect(consumed[0]).toMatchObject({ content: "concurrency-test", remainingViews: 0 });
+    expect(results.filter((result) => result.status === "already_viewed")).toHaveLength(PARALLEL_READS - 1);
+
+    const note = await db.note.findUniqueOrThrow({ where: { id } });
+    expect(note).toMatchObject({ viewed: true, remainingViews: 0, content: DESTROYED_CONTENT });
+  });
+
+  test("a multi-view note hands out exactly its view budget", async () => {
+    const id = await createNote(3);
+
+    const results = await readInParallel(id);
+    const consumed = results.filter((result) => result.status === "consumed");
+
+    expect(consumed).toHaveLength(3);
+    expect(results.filter((result) => result.status === "already_viewed")).toHaveLength(PARALLEL_READS - 3);
+
+    const remaining = consumed.map((result) => (result.status === "consumed" ? result.remainingViews : -1));
+    expect(remaining.sort()).toEqual([0, 1, 2]);
+  });
+});
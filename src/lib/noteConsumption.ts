@@ -0,0 +1,242 @@
+/**
+ * Note Consumption
+ *
+ * Reads a note and uses up one of its views in a single conditional UPDATE.
+ * The row is locked while it is checked, so concurrent readers can never both
+ * pass the check, and the content is wiped in the same statement that hands
+ * out the last view (no delayed cleanup that a crash could skip). The first
+ * reveal's time and source are kept as a read receipt for the sender.
+ *
+ * Notes created with a key commitment are only touched once the caller proves
+ * it holds the encryption key. Passphrase-protected notes are only consumed
+ * once the caller presents the matching verifier. Every wrong attempt burns
+ * one of the note's attempts, and the note self-destructs when none are left.
+ *
+ * Notes sent to a @handle can only be consumed by their recipient, anyone else
+ * (including link readers) is told they don't exist.
+ */
+
+import { db } from "../db";
+import { type NoteErrorResponse, type NoteRevealSource } from "../shared/contracts";
+import { encodeAttachments, destroyNoteAttachments, type RevealedAttachment } from "./noteAttachments";
+import { verifyKeyProof } from "./noteKeyProof";
+import { verifyPassphraseVerifier } from "./notePassphrase";
+import { openBytes, openDataKey, openText, type NoteKeyColumns } from "./noteAtRest";
+
+export const DESTROYED_CONTENT = "[DESTROYED]";
+
+export type ConsumeNoteOptions = {
+  source: NoteRevealSource;
+  keyProof?: string;
+  passphraseVerifier?: string;
+  recipientUserId?: string; // Signed-in user reading from their inbox
+};
+
+export type ConsumeNoteResult =
+  | {
+      status: "consumed";
+      content: string;
+      envelopeVersion: number;
+      remainingViews: number;
+      attachments: RevealedAttachment[];
+    }
+  | { status: "not_found" }
+  | { status: "already_viewed" }
+  | { status: "revoked" }
+  | { status: "expired" }
+  | { status: "invalid_key_proof" }
+  | { status: "passphrase_required" }
+  | { status: "passphrase_incorrect"; attemptsLeft: number };
+
+export type ConsumeNoteFailure = Exclude<ConsumeNoteResult, { status: "consumed" }>;
+
+/**
+ * Burn one passphrase attempt, destroying the note when the last one is used
+ * Returns the attempts left afterwards (0 means the note is gone)
+ */
+const recordFailedPassphraseAttempt = async (id: string): Promise<number> => {
+  const rows = await db.$queryRaw<{ attemptsLeft: number }[]>`
+    UPDATE "note" SET
+      "passphraseAttemptsLeft" = "passphraseAttemptsLeft" - 1,
+      "viewed" = "passphraseAttemptsLeft" - 1 <= 0,
+      "remainingViews" = CASE WHEN "passphraseAttemptsLeft" - 1 <= 0 THEN 0 ELSE "remainingViews" END,
+      "content" = CASE WHEN "passphraseAttemptsLeft" - 1 <= 0 THEN ${DESTROYED_CONTENT} ELSE "content" END,
+      "wrappedDataKey" = CASE WHEN "passphraseAttemptsLeft" - 1 <= 0 THEN NULL ELSE "wrappedDataKey" END,
+      "keyId" = CASE WHEN "passphraseAttemptsLeft" - 1 <= 0 THEN NULL ELSE "keyId" END
+    WHERE "id" = ${id}
+      AND "viewed" = false
+      AND "passphraseAttemptsLeft" > 0
+    RETURNING "passphraseAttemptsLeft" AS "attemptsLeft"
+  `;
+
+  // No row updated means a concurrent attempt already used up the last try
+  const attemptsLeft = rows[0]?.attemptsLeft ?? 0;
+  if (attemptsLeft === 0) {
+    await destroyNoteAttachments(id);
+  }
+  return attemptsLeft;
+};
+
+/**
+ * Atomically consume one view of a note
+ * Returns the content as it was before the read, plus the views left afterwards
+ */
+export const consumeNote = async (id: string, options: ConsumeNoteOptions): Promise<ConsumeNoteResult> => {
+  const now = new Date();
+
+  const note = await db.note.findUnique({
+    where: { id },
+    select: {
+      viewed: true,
+      revokedAt: true,
+      expiresAt: true,
+      keyCommitment: true,
+      passphraseHash: true,
+      recipientUserId: true,
+    },
+  });
+
+  if (!note || note.recipientUserId !== (options.recipientUserId ?? null)) {
+    return { status: "not_found" };
+  }
+  if (note.revokedAt) {
+    return { status: "revoked" };
+  }
+  if (note.viewed) {
+    return { status: "already_viewed" };
+  }
+  if (note.expiresAt <= now) {
+    return { status: "expired" };
+  }
+
+  // Proof of key comes first, so an ID-only caller can't even burn passphrase attempts
+  if (note.keyCommitment && !(options.keyProof && verifyKeyProof(options.keyProof, note.keyCommitment))) {
+    return { status: "invalid_key_proof" };
+  }
+
+  // Second factor: the verifier must match before the note can be consumed
+  if (note.passphraseHash) {
+    if (!options.passphraseVerifier) {
+      return { status: "passphrase_required" };
+    }
+    const matches = await verifyPassphraseVerifier(options.passphraseVerifier, note.passphraseHash);
+    if (!matches) {
+      const attemptsLeft = await recordFailedPassphraseAttempt(id);
+      return { status: "passphrase_incorrect", attemptsLeft };
+    }
+  }
+
+  // Consume the view and collect attachments in one transaction, so the last
+  // reader gets the blobs and they are gone once the transaction commits.
+  // Payloads sealed at rest are opened inside it: if the master key is gone the view isn't used
+  const consumed = await db.$transaction(async (tx) => {
+    const rows = await tx.$queryRaw<
+      (NoteKeyColumns & { content: string; envelopeVersion: number; remainingViews: number })[]
+    >`
+      WITH target AS (
+        SELECT "id", "content", "keyId", "wrappedDataKey" FROM "note"
+        WHERE "id" = ${id}
+          AND "viewed" = false
+          AND "remainingViews" > 0
+          AND "expiresAt" > ${now}
+        FOR UPDATE
+      )
+      UPDATE "note" AS n SET
+        "remainingViews" = n."remainingViews" - 1,
+        "viewed" = n."remainingViews" - 1 <= 0,
+        "content" = CASE WHEN n."remainingViews" - 1 <= 0 THEN ${DESTROYED_CONTENT} ELSE n."content" END,
+        "wrappedDataKey" = CASE WHEN n."remainingViews" - 1 <= 0 THEN NULL ELSE n."wrappedDataKey" END,
+        "keyId" = CASE WHEN n."remainingViews" - 1 <= 0 THEN NULL ELSE n."keyId" END,
+        "revealedAt" = COALESCE(n."revealedAt", ${now}),
+        "revealSource" = COALESCE(n."revealSource", ${options.source})
+      FROM target
+      WHERE n."id" = target."id"
+      RETURNING target."content" AS "content", target."keyId" AS "keyId", target."wrappedDataKey" AS "wrappedDataKey",
+        n."envelopeVersion" AS "envelopeVersion", n."remainingViews" AS "remainingViews"
+    `;
+
+    const row = rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const attachments = await tx.noteAttachment.findMany({
+      where: { noteId: id },
+      select: { id: true, data: true, meta: true },
+      orderBy: { createdAt: "asc" },
+    });
+    if (row.remainingViews <= 0) {
+      await tx.noteAttachment.deleteMany({ where: { noteId: id } });
+    }
+
+    const dataKey = openDataKey(row);
+    return {
+      content: openText(dataKey, "content", row.content),
+      envelopeVersion: row.envelopeVersion,
+      remainingViews: row.remainingViews,
+      attachments: encodeAttachments(
+        attachments.map((attachment) => ({
+          id: attachment.id,
+          data: openBytes(dataKey, "attachment-data", attachment.data),
+          meta: openText(dataKey, "attachment-meta", attachment.meta),
+        }))
+      ),
+    };
+  }, { timeout: 15 * 1000 }); // Loading and opening attachments can take a while
+
+  if (consumed) {
+    return { status: "consumed", ...consumed };
+  }
+
+  // A concurrent reader won the race (or the note was deleted meanwhile)
+  const current = await db.note.findUnique({
+    where: { id },
+    select: { viewed: true, revokedAt: true },
+  });
+
+  if (!current) {
+    return { status: "not_found" };
+  }
+  if (current.revokedAt) {
+    return { status: "revoked" };
+  }
+  if (current.viewed) {
+    return { status: "already_viewed" };
+  }
+  return { status: "expired" };
+};
+
+/**
+ * HTTP status and NoteErrorResponse for a read that didn't hand out the note
+ * Shared by every route that consumes notes (API, web reveal, inbox)
+ */
+export const consumeFailureResponse = (
+  result: ConsumeNoteFailure
+): { body: NoteErrorResponse; status: 401 | 403 | 404 | 410 } => {
+  switch (result.status) {
+    case "not_found":
+      return { body: { error: "Note not found", code: "NOT_FOUND" }, status: 404 };
+    case "already_viewed":
+      return { body: { error: "This note has already been viewed and destroyed", code: "ALREADY_VIEWED" }, status: 410 };
+    case "revoked":
+      return { body: { error: "This note was revoked by its sender", code: "REVOKED" }, status: 410 };
+    case "expired":
+      return { body: { error: "This note has expired", code: "EXPIRED" }, status: 410 };
+    case "invalid_key_proof":
+      return { body: { error: "Proof of the note key is required", code: "INVALID_KEY_PROOF" }, status: 403 };
+    case "passphrase_required":
+      return { body: { error: "This note is protected by a passphrase", code: "PASSPHRASE_REQUIRED" }, status: 401 };
+    case "passphrase_incorrect": {
+      // The note self-destructs when no attempts are left
+      const { attemptsLeft } = result;
+      return {
+        body: {
+          error: attemptsLeft > 0 ? "Incorrect passphrase" : "Too many wrong attempts, the note has been destroyed",
+          code: "PASSPHRASE_INCORRECT",
+          attemptsLeft,
+        },
+        status: attemptsLeft > 0 ? 403 : 410,
+      };
+    }
+  }
+};
@@ -0,0 +1,89 @@
+/**
+ * Note Content Envelope
+ *
+ * Notes created with envelopeVersion 1 carry their content, and each
+ * attachment's data and meta, as a versioned AES-256-GCM envelope
+ * (base64 of the bytes below) instead of the legacy unauthenticated
+ * AES-256-CTR format (base64 of nonce || ciphertext, envelopeVersion 0):
+ *
+ *   version (1 byte) = 1
+ *   algorithm (1 byte) = 1, AES-256-GCM
+ *   keyId (8 bytes) = first 8 bytes of HMAC-SHA256(key = raw encryption key, message = KEY_ID_MESSAGE)
+ *   iv (12 bytes)
+ *   ciphertext || tag (16 bytes), additional data = the 10 header bytes
+ *
+ * The header is authenticated, so changing any byte makes decryption fail.
+ * The server can't decrypt anything, it only checks the shape and that every
+ * part of a note names the same key.
+ *
+ * The envelopeVersion a reader gets back comes from the server, which could
+ * claim 0 to push the viewer onto unauthenticated CTR. Clients creating
+ * version 1 notes therefore put the version in the link fragment, which never
+ * reaches the server: #v1.<key>, or #v1 when the key is wrapped to the
+ * recipient. A viewer that finds a marker decrypts with that version only.
+ */
+
+export const KEY_ID_MESSAGE = "destructnote:key-id";
+
+export const CONTENT_ENVELOPE_VERSION = 1;
+export const LEGACY_CONTENT_VERSION = 0; // AES-256-CTR without authentication
+
+const ENVELOPE_ALGORITHMS: Record<number, string> = { 1: "AES-256-GCM" };
+
+const HEADER_BYTES = 10; // version, algorithm, keyId
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export type ContentEnvelope = {
+  version: number;
+  algorithm: string;
+  keyId: string; // hex
+};
+
+/**
+ * Read the header of a base64 envelope, null if it isn't a well-formed version 1 envelope
+ * Only the header is decoded, attachment data can be large
+ */
+export const parseContentEnvelope = (base64: string): ContentEnvelope | null => {
+  if (base64.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+    return null;
+  }
+  const size = (base64.length / 4) * 3 - (base64.match(/=*$/)?.[0].length ?? 0);
+  const header = Buffer.from(base64.slice(0, 16), "base64"); // 12 bytes, enough for the header
+  if (size <= HEADER_BYTES + IV_BYTES + TAG_BYTES || header[0] !== CONTENT_ENVELOPE_VERSION) {
+    return null;
+  }
+
+  const algorithm = ENVELOPE_ALGORITHMS[header[1]!];
+  if (!algorithm) {
+    return null;
+  }
+  return { version: header[0], algorithm, keyId: header.subarray(2, HEADER_BYTES).toString("hex") };
+};
+
+/**
+ * Check the content and attachments of a new envelope note
+ * Returns a user-facing reason, or null if every part is a valid envelope under one key
+ */
+export const findContentEnvelopeProblem = (
+  content: string,
+  attachments: { data: string; meta: string }[]
+): string | null => {
+  const envelope = parseContentEnvelope(content);
+  if (!envelope) {
+    return "Content is not a valid version 1 envelope";
+  }
+
+  for (const [index, attachment] of attachments.entries()) {
+    for (const part of [attachment.data, attachment.meta]) {
+      const partEnvelope = parseContentEnvelope(part);
+      if (!partEnvelope) {
+        return `Attachment ${index + 1} is not a valid version 1 envelope`;
+      }
+      if (partEnvelope.keyId !== envelope.keyId) {
+        return `Attachment ${index + 1} is encrypted with a different key than the content`;
+      }
+    }
+  }
+  return null;
+};
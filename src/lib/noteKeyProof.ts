@@ -0,0 +1,25 @@
+/**
+ * Note Key Proof Helpers
+ *
+ * A note can be created with a key commitment so that knowing its ID alone
+ * (e.g. a URL logged without its #fragment) is not enough to burn it.
+ *
+ *   keyProof      = HMAC-SHA256(key = raw encryption key, message = KEY_PROOF_MESSAGE)
+ *   keyCommitment = SHA-256(keyProof)
+ *
+ * Both values travel as base64. The server stores only the commitment and checks
+ * that a presented proof hashes to it; neither value reveals the key.
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+
+export const KEY_PROOF_MESSAGE = "destructnote:reveal";
+
+/**
+ * Check a base64 key proof against the stored base64 commitment
+ */
+export const verifyKeyProof = (keyProof: string, keyCommitment: string): boolean => {
+  const expected = Buffer.from(keyCommitment, "base64");
+  const actual = createHash("sha256").update(Buffer.from(keyProof, "base64")).digest();
+  return expected.length === actual.length && timingSafeEqual(actual, expected);
+};
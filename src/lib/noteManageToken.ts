@@ -0,0 +1,33 @@
+/**
+ * Note Manage Token Helpers
+ *
+ * The sender gets a random manage token when a note is created. It is shown
+ * once and only its SHA-256 hash is stored, so a database leak can't be used
+ * to manage other people's notes.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+
+const hashToken = (token: string): Buffer => createHash("sha256").update(token).digest();
+
+/**
+ * Hex SHA-256 of a manage token, as stored with the note
+ */
+export const hashManageToken = (token: string): string => hashToken(token).toString("hex");
+
+/**
+ * Create a new manage token and the hash to store with the note
+ */
+export const createManageToken = (): { token: string; hash: string } => {
+  const token = randomBytes(32).toString("base64url");
+  return { token, hash: hashManageToken(token) };
+};
+
+/**
+ * Check a presented manage token against the stored hash in constant time
+ */
+export const verifyManageToken = (token: string, storedHash: string): boolean => {
+  const expected = Buffer.from(storedHash, "hex");
+  const actual = hashToken(token);
+  return expected.length === actual.length && timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,38 @@
+/**
+ * Note Passphrase Helpers
+ *
+ * Passphrase-protected notes never send the passphrase itself. The client derives
+ * a verifier from it (see createNoteRequestSchema) and the server only keeps a
+ * salted scrypt hash of that verifier.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+
+export const MAX_PASSPHRASE_ATTEMPTS = 5;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const HASH_LENGTH = 32;
+
+/**
+ * Hash a client-supplied verifier for storage as "scrypt$<salt>$<hash>"
+ */
+export const hashPassphraseVerifier = async (verifier: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(verifier, salt, HASH_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+};
+
+/**
+ * Check a verifier against a stored hash in constant time
+ */
+export const verifyPassphraseVerifier = async (verifier: string, stored: string): Promise<boolean> => {
+  const [scheme, saltHex, hashHex] = stored.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(verifier, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,68 @@
+/**
+ * Note Delivery Status
+ *
+ * The status a sender sees for a note, derived from its lifecycle fields:
+ * revoked by the sender, revealed (at least once), destroyed without a reveal
+ * (passphrase lockout), expired unread, or still pending. The same rules are
+ * available as Prisma filters for listing notes by status.
+ * A multi-view note stays readable after its first reveal, so "can still be
+ * read" (liveNoteWhere) is broader than "pending".
+ */
+
+import { type Prisma } from "../../generated/prisma";
+import { type NoteStatus } from "../shared/contracts";
+
+type NoteLifecycle = {
+  viewed: boolean;
+  expiresAt: Date;
+  revealedAt: Date | null;
+  revokedAt: Date | null;
+};
+
+/**
+ * Status of a single note
+ */
+export const getNoteStatus = (note: NoteLifecycle, now = new Date()): NoteStatus => {
+  if (note.revokedAt) {
+    return "revoked";
+  }
+  if (note.revealedAt) {
+    return "revealed";
+  }
+  // Budget spent without a reveal means it was burned (e.g. passphrase lockout)
+  if (note.viewed) {
+    return "destroyed";
+  }
+  if (note.expiresAt <= now) {
+    return "expired";
+  }
+  return "pending";
+};
+
+/**
+ * Filter matching the notes getNoteStatus would give this status
+ */
+export const noteStatusWhere = (status: NoteStatus, now = new Date()): Prisma.NoteWhereInput => {
+  switch (status) {
+    case "revoked":
+      return { revokedAt: { not: null } };
+    case "revealed":
+      return { revokedAt: null, revealedAt: { not: null } };
+    case "destroyed":
+      return { revokedAt: null, revealedAt: null, viewed: true };
+    case "expired":
+      return { revokedAt: null, revealedAt: null, viewed: false, expiresAt: { lte: now } };
+    case "pending":
+      return { revokedAt: null, revealedAt: null, viewed: false, expiresAt: { gt: now } };
+  }
+};
+
+/**
+ * Filter matching the notes that can still be read: not revoked, views left and not expired
+ * Unlike "pending" this includes revealed notes with views left
+ */
+export const liveNoteWhere = (now = new Date()): Prisma.NoteWhereInput => ({
+  revokedAt: null,
+  viewed: false,
+  expiresAt: { gt: now },
+});
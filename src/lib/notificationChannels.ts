@@ -0,0 +1,141 @@
+/**
+ * Notification Channels
+ *
+ * Delivers a single read notification over one channel. Each sender throws on
+ * failure so the outbox can retry it later. Endpoints come from env, which
+ * lets them point at a local HTTP stand-in during testing.
+ *
+ * Webhooks are signed like this:
+ *   X-DestructNote-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<raw body>")>
+ */
+
+import { createHmac } from "node:crypto";
+import { env } from "../env";
+import { resolvesToPublicAddresses } from "./publicAddress";
+import { type NoteRevealSource } from "../shared/contracts";
+
+export type NotificationChannel = "push" | "webhook" | "email";
+
+export type RevealNotificationPayload = {
+  event: "note.revealed";
+  noteId: string;
+  revealedAt: string;
+  source: NoteRevealSource;
+  remainingViews: number;
+};
+
+export type ChannelSender = (target: string, payload: RevealNotificationPayload, secret: string | null) => Promise<void>;
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// How reveal sources are described in emails
+const REVEAL_SOURCE_LABELS: Record<NoteRevealSource, string> = {
+  web: "web viewer",
+  api: "app",
+  inbox: "recipient's inbox",
+};
+
+/**
+ * POST JSON with a timeout, throwing on network errors and non-2xx responses
+ */
+const postJson = async (url: string, body: string, headers: Record<string, string>): Promise<void> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+      signal: controller.signal,
+      // A webhook could redirect to an internal address, a 3xx counts as a failure
+      redirect: "manual",
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Sign a webhook body with the note's webhook secret
+ */
+export const signWebhookBody = (secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string => {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+};
+
+/**
+ * Webhook targets must be HTTPS hosts that only resolve to public addresses
+ * (localhost over HTTP or HTTPS is allowed outside production). Checked when the
+ * note is created and again before every delivery, DNS can change in between
+ */
+export const isAllowedWebhookUrl = async (value: string): Promise<boolean> => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  const isLocal = url.hostname === "localhost" || url.hostname === "127.0.0.1";
+  if (isLocal && env.NODE_ENV !== "production") {
+    return url.protocol === "http:" || url.protocol === "https:";
+  }
+  return url.protocol === "https:" && resolvesToPublicAddresses(url.hostname);
+};
+
+/**
+ * Check if email notifications are configured on the backend
+ */
+export const isEmailConfigured = (): boolean => {
+  return !!env.EMAIL_API_URL && !!env.EMAIL_API_KEY;
+};
+
+const sendPush: ChannelSender = async (expoPushToken, payload) => {
+  const body = JSON.stringify({
+    to: expoPushToken,
+    title: "Your note was read",
+    body:
+      payload.remainingViews > 0
+        ? `Someone opened your note. ${payload.remainingViews} views left.`
+        : "Someone opened your note. It has now self-destructed.",
+    data: payload,
+  });
+  await postJson(env.EXPO_PUSH_API_URL, body, {});
+};
+
+const sendWebhook: ChannelSender = async (url, payload, secret) => {
+  if (!secret) {
+    throw new Error("Webhook secret missing");
+  }
+  if (!(await isAllowedWebhookUrl(url))) {
+    throw new Error("Webhook URL doesn't resolve to a public address");
+  }
+  const body = JSON.stringify(payload);
+  await postJson(url, body, { "X-DestructNote-Signature": signWebhookBody(secret, body) });
+};
+
+const sendEmail: ChannelSender = async (email, payload) => {
+  if (!env.EMAIL_API_URL || !env.EMAIL_API_KEY) {
+    throw new Error("Email API not configured");
+  }
+  const body = JSON.stringify({
+    from: env.EMAIL_FROM,
+    to: email,
+    subject: "Your DestructNote was read",
+    text: `Your note ${payload.noteId} was opened at ${payload.revealedAt} (${REVEAL_SOURCE_LABELS[payload.source]}).`,
+  });
+  await postJson(env.EMAIL_API_URL, body, { Authorization: `Bearer ${env.EMAIL_API_KEY}` });
+};
+
+/**
+ * Channel registry - add a sender here to support a new channel
+ */
+export const channelSenders: Record<NotificationChannel, ChannelSender> = {
+  push: sendPush,
+  webhook: sendWebhook,
+  email: sendEmail,
+};
@@ -0,0 +1,167 @@
+/**
+ * Notification Outbox
+ *
+ * Read notifications are never sent inside the reveal request. Revealing a note
+ * only inserts outbox rows, and a background worker delivers them with
+ * exponential backoff. Rows are claimed with FOR UPDATE SKIP LOCKED, so several
+ * replicas can run the worker without sending anything twice.
+ */
+
+import { db } from "../db";
+import { type NoteRevealSource } from "../shared/contracts";
+import {
+  channelSenders,
+  isEmailConfigured,
+  type NotificationChannel,
+  type RevealNotificationPayload,
+} from "./notificationChannels";
+
+const WORKER_INTERVAL_MS = 10 * 1000; // Poll every 10 seconds
+const BATCH_SIZE = 20;
+const CLAIM_LEASE_MS = 60 * 1000; // A claimed row is retried if its worker dies
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000; // 30s, 1m, 2m, 4m, ...
+
+type OutboxRow = {
+  id: string;
+  channel: NotificationChannel;
+  target: string;
+  secret: string | null;
+  payload: RevealNotificationPayload;
+  attempts: number;
+};
+
+/**
+ * Queue read notifications for every channel the sender enabled on this note
+ * Never throws, a notification problem must not break the reveal
+ */
+export const enqueueRevealNotifications = async (
+  noteId: string,
+  source: NoteRevealSource,
+  remainingViews: number
+): Promise<void> => {
+  try {
+    const note = await db.note.findUnique({
+      where: { id: noteId },
+      select: {
+        deviceId: true,
+        notifyPush: true,
+        notifyEmail: true,
+        notifyWebhookUrl: true,
+        notifyWebhookSecret: true,
+      },
+    });
+    if (!note) {
+      return;
+    }
+
+    const payload: RevealNotificationPayload = {
+      event: "note.revealed",
+      noteId,
+      revealedAt: new Date().toISOString(),
+      source,
+      remainingViews,
+    };
+
+    const rows: { channel: NotificationChannel; target: string; secret?: string }[] = [];
+
+    if (note.notifyPush && note.deviceId) {
+      const pushToken = await db.pushToken.findUnique({ where: { deviceId: note.deviceId } });
+      if (pushToken) {
+        rows.push({ channel: "push", target: pushToken.token });
+      }
+    }
+    if (note.notifyWebhookUrl && note.notifyWebhookSecret) {
+      rows.push({ channel: "webhook", target: note.notifyWebhookUrl, secret: note.notifyWebhookSecret });
+    }
+    if (note.notifyEmail && isEmailConfigured()) {
+      rows.push({ channel: "email", target: note.notifyEmail });
+    }
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    await db.notificationOutbox.createMany({
+      data: rows.map((row) => ({ noteId, ...row, payload })),
+    });
+    console.log(`📨 [Notifications] Queued ${rows.length} read notifications for note: ${noteId}`);
+  } catch (error) {
+    console.error("❌ [Notifications] Failed to queue read notifications:", error);
+  }
+};
+
+/**
+ * Claim due rows by pushing their next attempt out by the lease
+ */
+const claimDueNotifications = async (): Promise<OutboxRow[]> => {
+  const now = new Date();
+  const leaseUntil = new Date(now.getTime() + CLAIM_LEASE_MS);
+
+  return db.$queryRaw<OutboxRow[]>`
+    UPDATE "notification_outbox" SET
+      "attempts" = "attempts" + 1,
+      "nextAttemptAt" = ${leaseUntil}
+    WHERE "id" IN (
+      SELECT "id" FROM "notification_outbox"
+      WHERE "status" = 'pending' AND "nextAttemptAt" <= ${now}
+      ORDER BY "nextAttemptAt"
+      LIMIT ${BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id", "channel", "target", "secret", "payload", "attempts"
+  `;
+};
+
+/**
+ * Deliver one claimed row, rescheduling it with backoff on failure
+ */
+const deliverNotification = async (row: OutboxRow): Promise<void> => {
+  try {
+    await channelSenders[row.channel](row.target, row.payload, row.secret);
+    await db.notificationOutbox.update({
+      where: { id: row.id },
+      data: { status: "sent", sentAt: new Date(), lastError: null },
+    });
+    console.log(`✅ [Notifications] Delivered ${row.channel} notification ${row.id}`);
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    const giveUp = row.attempts >= MAX_ATTEMPTS;
+    await db.notificationOutbox.update({
+      where: { id: row.id },
+      data: {
+        status: giveUp ? "failed" : "pending",
+        nextAttemptAt: new Date(Date.now() + BASE_BACKOFF_MS * 2 ** (row.attempts - 1)),
+        lastError,
+      },
+    });
+    console.error(
+      `❌ [Notifications] ${row.channel} notification ${row.id} failed (attempt ${row.attempts}/${MAX_ATTEMPTS}${giveUp ? ", giving up" : ""}):`,
+      lastError
+    );
+  }
+};
+
+/**
+ * Deliver every notification that is currently due
+ * Returns the number of rows processed
+ */
+export const processNotificationOutbox = async (): Promise<number> => {
+  try {
+    const rows = await claimDueNotifications();
+    await Promise.all(rows.map(deliverNotification));
+    return rows.length;
+  } catch (error) {
+    console.error("❌ [Notifications] Failed to process outbox:", error);
+    return 0;
+  }
+};
+
+/**
+ * Start the periodic delivery worker
+ */
+export const startNotificationWorker = (): ReturnType<typeof setInterval> => {
+  console.log("📨 [Notifications] Starting outbox worker (runs every 10 seconds)");
+
+  return setInterval(processNotificationOutbox, WORKER_INTERVAL_MS);
+};
@@ -0,0 +1,110 @@
+/**
+ * Plans
+ *
+ * Every device is on the free, plus or pro tier. Paid tiers come from
+ * RevenueCat entitlements (the legacy "premium" entitlement is Plus) and set
+ * the note quota and its window, size and expiry limits and which features
+ * are available.
+ * NoteUsageResponse exposes these limits so the app never hard-codes them.
+ */
+
+import { type PlanLimits, type PlanTier } from "../shared/contracts";
+
+const DAY_SECONDS = 24 * 60 * 60;
+const MB = 1024 * 1024;
+
+export const PLANS: Record<PlanTier, PlanLimits> = {
+  free: {
+    noteQuota: 5,
+    quotaWindow: { type: "month" },
+    maxContentLength: 10_000,
+    maxTtlSeconds: 30 * DAY_SECONDS,
+    maxAttachments: 3,
+    maxAttachmentBytes: 5 * MB,
+    features: { attachments: true, passphrase: true, emailNotifications: true, webhookNotifications: false },
+  },
+  plus: {
+    noteQuota: null,
+    quotaWindow: { type: "month" },
+    maxContentLength: 50_000,
+    maxTtlSeconds: 90 * DAY_SECONDS,
+    maxAttachments: 3,
+    maxAttachmentBytes: 10 * MB,
+    features: { attachments: true, passphrase: true, emailNotifications: true, webhookNotifications: true },
+  },
+  pro: {
+    noteQuota: null,
+    quotaWindow: { type: "month" },
+    maxContentLength: 100_000,
+    maxTtlSeconds: 365 * DAY_SECONDS,
+    maxAttachments: 3,
+    maxAttachmentBytes: 20 * MB,
+    features: { attachments: true, passphrase: true, emailNotifications: true, webhookNotifications: true },
+  },
+};
+
+// RevenueCat entitlement identifier -> tier
+export const ENTITLEMENT_TIERS: Record<string, PlanTier> = {
+  premium: "plus",
+  plus: "plus",
+  pro: "pro",
+};
+
+const TIER_RANK: Record<PlanTier, number> = { free: 0, plus: 1, pro: 2 };
+
+export const isPlanTier = (tier: string): tier is PlanTier => tier in TIER_RANK;
+
+export const isHigherTier = (tier: PlanTier, than: PlanTier): boolean => TIER_RANK[tier] > TIER_RANK[than];
+
+/**
+ * Highest tier granted by a set of entitlement identifiers ("free" if none is known)
+ */
+export const tierForEntitlements = (entitlementIds: string[]): PlanTier =>
+  entitlementIds.reduce<PlanTier>((best, id) => {
+    const tier = ENTITLEMENT_TIERS[id];
+    return tier && isHigherTier(tier, best) ? tier : best;
+  }, "free");
+
+/**
+ * Tier of a stored NoteUsage.tier value, unknown values fall back to free
+ */
+export const toPlanTier = (tier: string): PlanTier => (isPlanTier(tier) ? tier : "free");
+
+/**
+ * Check a new note against the sender's plan
+ * Returns the reason it exceeds the plan, or null if it fits
+ */
+export const findPlanViolation = (
+  limits: PlanLimits,
+  note: {
+    contentLength: number;
+    ttlSeconds: number;
+    attachmentCount: number;
+    passphrase: boolean;
+    emailNotification: boolean;
+    webhookNotification: boolean;
+  }
+): string | null => {
+  if (note.contentLength > limits.maxContentLength) {
+    return `Note is too long for your plan (max ${limits.maxContentLength} characters)`;
+  }
+  if (note.ttlSeconds > limits.maxTtlSeconds) {
+    return `Expiry is too long for your plan (max ${Math.floor(limits.maxTtlSeconds / DAY_SECONDS)} days)`;
+  }
+  if (note.attachmentCount > 0 && !limits.features.attachments) {
+    return "Attachments are not included in your plan";
+  }
+  if (note.attachmentCount > limits.maxAttachments) {
+    return `Your plan allows at most ${limits.maxAttachments} attachments`;
+  }
+  if (note.passphrase && !limits.features.passphrase) {
+    return "Passphrases are not included in your plan";
+  }
+  if (note.emailNotification && !limits.features.emailNotifications) {
+    return "Email notifications are not included in your plan";
+  }
+  if (note.webhookNotification && !limits.features.webhookNotifications) {
+    return "Webhook notifications are not included in your plan";
+  }
+  return null;
+};
@@ -0,0 +1,34 @@
+/**
+ * Public address checks for webhook targets
+ *
+ * IP literals only, so no DNS is needed.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { isPublicAddress, resolvesToPublicAddresses } from "./publicAddress";
+
+describe("isPublicAddress", () => {
+  test("internal IPv4 addresses aren't public", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.31.255.255", "192.168.0.10", "169.254.169.254", "100.64.0.1", "0.0.0.0"]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  test("internal IPv6 addresses aren't public, including IPv4 wrapped in IPv6", () => {
+    for (const address of ["::1", "::", "fd12:3456::1", "fe80::1%eth0", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe", "64:ff9b::10.0.0.1", "2002:c0a8:0101::1"]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  test("public addresses are allowed", () => {
+    for (const address of ["93.184.216.34", "172.32.0.1", "2606:4700:4700::1111", "::ffff:8.8.8.8"]) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  });
+
+  test("URL hostnames with IP literals are checked without DNS", async () => {
+    expect(await resolvesToPublicAddresses("[::1]")).toBe(false);
+    expect(await resolvesToPublicAddresses("169.254.169.254")).toBe(false);
+    expect(await resolvesToPublicAddresses("1.1.1.1")).toBe(true);
+  });
+});
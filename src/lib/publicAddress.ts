@@ -0,0 +1,110 @@
+/**
+ * Public Addresses
+ *
+ * Webhook URLs are chosen by senders, so the server must not be talked into
+ * calling its own network: loopback, private, link-local (cloud metadata),
+ * carrier-grade NAT, unique-local and other reserved ranges are refused.
+ * Hostnames are checked by what they resolve to, every address has to be public.
+ */
+
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+// IPv4 ranges that aren't reachable on the public internet, as [base, prefix length]
+const NON_PUBLIC_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, cloud metadata endpoints
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // Documentation
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["198.51.100.0", 24], // Documentation
+  ["203.0.113.0", 24], // Documentation
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved, broadcast
+];
+
+const ipv4ToNumber = (address: string): number =>
+  address.split(".").reduce((value, part) => value * 256 + Number(part), 0);
+
+const isPublicIpv4 = (address: string): boolean => {
+  const value = ipv4ToNumber(address);
+  return !NON_PUBLIC_IPV4_RANGES.some(([base, bits]) => value >>> (32 - bits) === ipv4ToNumber(base) >>> (32 - bits));
+};
+
+/**
+ * The eight 16-bit groups of an IPv6 address, with "::" expanded and a trailing
+ * dotted IPv4 part (::ffff:10.0.0.1) turned into two groups
+ */
+const ipv6Groups = (address: string): number[] => {
+  let value = address.replace(/%.*$/, "").toLowerCase();
+  const dotted = /\d+\.\d+\.\d+\.\d+$/.exec(value);
+  if (dotted) {
+    const ipv4 = ipv4ToNumber(dotted[0]);
+    value = `${value.slice(0, dotted.index)}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = value.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const zeros = tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length).fill("0");
+  return [...headGroups, ...zeros, ...tailGroups].map((group) => parseInt(group, 16));
+};
+
+const groupsToIpv4 = (high: number, low: number): string =>
+  [high >>> 8, high & 0xff, low >>> 8, low & 0xff].join(".");
+
+const isPublicIpv6 = (address: string): boolean => {
+  const groups = ipv6Groups(address);
+  const [first = 0, second = 0, third = 0, , , , seventh = 0, eighth = 0] = groups;
+
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses reach the embedded IPv4 address
+  const mapped = groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff;
+  const nat64 = first === 0x64 && second === 0xff9b && groups.slice(2, 6).every((group) => group === 0);
+  if (mapped || nat64) {
+    return isPublicIpv4(groupsToIpv4(seventh, eighth));
+  }
+  // 6to4 (2002::/16) carries the IPv4 address in the next two groups
+  if (first === 0x2002) {
+    return isPublicIpv4(groupsToIpv4(second, third));
+  }
+
+  if (groups.slice(0, 6).every((group) => group === 0)) return false; // Unspecified, loopback, IPv4-compatible
+  if ((first & 0xfe00) === 0xfc00) return false; // Unique local
+  if ((first & 0xffc0) === 0xfe80 || (first & 0xffc0) === 0xfec0) return false; // Link-local, site-local
+  if ((first & 0xff00) === 0xff00) return false; // Multicast
+  if (first === 0x2001 && second === 0x0db8) return false; // Documentation
+  return true;
+};
+
+/**
+ * Whether an IP address is reachable on the public internet (false for anything that isn't an IP)
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 4) return isPublicIpv4(address);
+  if (family === 6) return isPublicIpv6(address);
+  return false;
+};
+
+/**
+ * Whether a hostname (or IP literal, as in URL.hostname) only resolves to public addresses
+ * Names that don't resolve count as not public
+ */
+export const resolvesToPublicAddresses = async (hostname: string): Promise<boolean> => {
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  if (isIP(host)) {
+    return isPublicAddress(host);
+  }
+
+  try {
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+};
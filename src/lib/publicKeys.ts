@@ -0,0 +1,137 @@
+/**
+ * Public Key Directory
+ *
+ * Signed-in users publish an X25519 or P-256 public key so notes can be
+ * encrypted to them: the sender wraps the note's content key to the key
+ * (NoteKeyEnvelope in src/shared/contracts.ts) and the link no longer needs to
+ * carry it. Private keys never reach the server. Keys are named by their
+ * fingerprint, the hex SHA-256 of the raw public key. Publishing a new key
+ * retires the previous one: it can't be used for new notes, but stays listed
+ * so notes already wrapped to it can still be matched to it.
+ */
+
+import { createHash, createPublicKey } from "node:crypto";
+import { db } from "../db";
+import { type UserPublicKey } from "../../generated/prisma";
+import { type NoteKeyEnvelope, type PublicKey, type PublicKeyAlgorithm } from "../shared/contracts";
+
+// HKDF info of the key wrap, shared with clients (see noteKeyEnvelopeSchema)
+export const KEY_WRAP_INFO = "destructnote:key-wrap:v1";
+
+export type PublishResult =
+  | { status: "published"; key: UserPublicKey }
+  | { status: "taken" }; // Same key already published by another user
+
+/**
+ * Decode a base64 raw public key, null unless it is a valid key for the algorithm
+ */
+export const decodePublicKey = (algorithm: PublicKeyAlgorithm, base64: string): Buffer | null => {
+  const raw = Buffer.from(base64, "base64");
+
+  if (algorithm === "x25519") {
+    return raw.length === 32 ? raw : null;
+  }
+
+  // P-256: uncompressed point (0x04 || x || y) that must lie on the curve
+  if (raw.length !== 65 || raw[0] !== 0x04) {
+    return null;
+  }
+  try {
+    createPublicKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        x: raw.subarray(1, 33).toString("base64url"),
+        y: raw.subarray(33).toString("base64url"),
+      },
+      format: "jwk",
+    });
+    return raw;
+  } catch {
+    return null;
+  }
+};
+
+export const publicKeyFingerprint = (raw: Buffer): string => createHash("sha256").update(raw).digest("hex");
+
+export const toPublicKey = (key: UserPublicKey): PublicKey => ({
+  algorithm: key.algorithm as PublicKeyAlgorithm,
+  publicKey: key.publicKey,
+  fingerprint: key.fingerprint,
+  createdAt: key.createdAt.toISOString(),
+  retiredAt: key.retiredAt?.toISOString() ?? null,
+});
+
+/**
+ * The key notes to a user should be encrypted to (null if they never published one)
+ */
+export const getActivePublicKey = (userId: string): Promise<UserPublicKey | null> =>
+  db.userPublicKey.findFirst({ where: { userId, retiredAt: null }, orderBy: { createdAt: "desc" } });
+
+/**
+ * Publish a key as the user's current one, retiring the previous key
+ * Publishing the current key again is a no-op
+ */
+export const publishPublicKey = async (
+  userId: string,
+  algorithm: PublicKeyAlgorithm,
+  raw: Buffer
+): Promise<PublishResult> => {
+  const fingerprint = publicKeyFingerprint(raw);
+
+  try {
+    return await db.$transaction(async (tx) => {
+      const existing = await tx.userPublicKey.findUnique({ where: { fingerprint } });
+      if (existing) {
+        // A retired key can't come back, it would make rotation meaningless
+        return existing.userId === userId && !existing.retiredAt
+          ? { status: "published", key: existing }
+          : { status: "taken" };
+      }
+
+      await tx.userPublicKey.updateMany({ where: { userId, retiredAt: null }, data: { retiredAt: new Date() } });
+      const key = await tx.userPublicKey.create({
+        data: { userId, algorithm, publicKey: raw.toString("base64"), fingerprint },
+      });
+      return { status: "published", key };
+    });
+  } catch (error: any) {
+    // Unique violation: the same key was published concurrently
+    if (error?.code === "P2002") {
+      return { status: "taken" };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Read the envelope stored with a note
+ */
+export const parseKeyEnvelope = (stored: string | null): NoteKeyEnvelope | null =>
+  stored ? (JSON.parse(stored) as NoteKeyEnvelope) : null;
+
+/**
+ * Check that an envelope names a current key of the recipient and is well formed
+ * recipientUserId is null for link notes, where any published key will do
+ * Returns a user-facing reason, or null if the envelope is fine
+ */
+export const findKeyEnvelopeProblem = async (
+  envelope: NoteKeyEnvelope,
+  recipientUserId: string | null
+): Promise<string | null> => {
+  const key = await db.userPublicKey.findUnique({ where: { fingerprint: envelope.keyId } });
+
+  if (!key || (recipientUserId && key.userId !== recipientUserId)) {
+    return "The envelope is not wrapped to a key of the recipient";
+  }
+  if (key.retiredAt) {
+    return "The recipient rotated their key, encrypt to their current key";
+  }
+  if (key.algorithm !== envelope.alg) {
+    return `The recipient key is ${key.algorithm}, not ${envelope.alg}`;
+  }
+  if (!decodePublicKey(envelope.alg, envelope.epk)) {
+    return "Invalid ephemeral public key";
+  }
+  return null;
+};
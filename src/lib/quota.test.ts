@@ -0,0 +1,62 @@
+/**
+ * Note quota concurrency
+ *
+ * Fires more parallel creates than the plan allows at one device and checks
+ * the lifetime row lock lets exactly the quota through. Runs against
+ * DATABASE_URL (see src/test/database.ts).
+ */
+
+import { expect, test } from "bun:test";
+import { db } from "../db";
+import { describeWithDatabase } from "../test/database";
+import { type PlanLimits } from "../shared/contracts";
+import { PLANS } from "./plans";
+import { consumeQuota, getQuotaUsage, LIFETIME_PERIOD } from "./quota";
+
+const EXTRA_CREATES = 7;
+
+const testDeviceIds: string[] = [];
+
+// getOrCreateUsage creates the lifetime record before any note is counted
+const createDevice = async () => {
+  const deviceId = `quota-test-${crypto.randomUUID()}`;
+  testDeviceIds.push(deviceId);
+  await db.noteUsage.create({ data: { deviceId, ...LIFETIME_PERIOD, count: 0 } });
+  return deviceId;
+};
+
+const createInParallel = (deviceId: string, limits: PlanLimits, attempts: number) =>
+  Promise.all(
+    Array.from({ length: attempts }, () =>
+      db.$transaction((tx) => consumeQuota(tx, deviceId, limits), { timeout: 15 * 1000 })
+    )
+  );
+
+const cleanup = () => db.noteUsage.deleteMany({ where: { deviceId: { in: testDeviceIds } } });
+
+describeWithDatabase("consumeQuota under concurrent creates", cleanup, () => {
+  test("a monthly quota lets exactly its limit through", async () => {
+    const deviceId = await createDevice();
+    const limits = PLANS.free;
+    const limit = limits.noteQuota!;
+
+    const results = await createInParallel(deviceId, limits, limit + EXTRA_CREATES);
+
+    expect(results.filter(Boolean)).toHaveLength(limit);
+    expect(results.filter((allowed) => !allowed)).toHaveLength(EXTRA_CREATES);
+    expect((await getQuotaUsage(deviceId, limits.quotaWindow, 0)).count).toBe(limit);
+  });
+
+  test("a rolling window quota lets exactly its limit through", async () => {
+    const deviceId = await createDevice();
+    const limits: PlanLimits = { ...PLANS.free, noteQuota: 3, quotaWindow: { type: "rolling", days: 7 } };
+
+    const results = await createInParallel(deviceId, limits, 3 + EXTRA_CREATES);
+
+    expect(results.filter(Boolean)).toHaveLength(3);
+    const lifetime = await db.noteUsage.findUniqueOrThrow({
+      where: { deviceId_year_month_day: { deviceId, ...LIFETIME_PERIOD } },
+    });
+    expect(lifetime.count).toBe(3);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Note Quota Windows
+ *
+ * NoteUsage holds one row per device and period, keyed by (year, month, day):
+ *   - (0, 0, 0)     lifetime record: total count plus the device's plan state
+ *   - (y, m, 0)     calendar month bucket (UTC)
+ *   - (y, m, d)     daily bucket, summed over the last N days for rolling windows
+ * Every note increments all three, so the quota can be measured in whichever
+ * window the device's plan uses (see quotaWindow in src/lib/plans.ts), even
+ * right after the plan changes.
+ * Creating a note consumes quota inside the note's transaction while holding a
+ * lock on the device's lifetime record, so parallel creates can't overshoot.
+ */
+
+import { db } from "../db";
+import { type Prisma } from "../../generated/prisma";
+import { type PlanLimits, type QuotaWindow } from "../shared/contracts";
+
+type DbClient = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DAILY_BUCKET_RETENTION_DAYS = 400; // Longer than any rolling window
+
+export const LIFETIME_PERIOD = { year: 0, month: 0, day: 0 };
+
+export type QuotaUsage = {
+  count: number;
+  resetsAt: Date | null; // null when nothing will reset (lifetime window, or nothing used yet)
+};
+
+const monthPeriod = (date: Date) => ({ year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: 0 });
+const dayPeriod = (date: Date) => ({ ...monthPeriod(date), day: date.getUTCDate() });
+const periodStart = ({ year, month, day }: { year: number; month: number; day: number }) =>
+  new Date(Date.UTC(year, month - 1, day || 1));
+
+/**
+ * Count a device's notes in a quota window
+ * lifetimeCount is the count of the device's lifetime record
+ */
+export const getQuotaUsage = async (
+  deviceId: string,
+  window: QuotaWindow,
+  lifetimeCount: number,
+  now = new Date(),
+  client: DbClient = db
+): Promise<QuotaUsage> => {
+  if (window.type === "lifetime") {
+    return { count: lifetimeCount, resetsAt: null };
+  }
+
+  if (window.type === "month") {
+    const bucket = await client.noteUsage.findUnique({
+      where: { deviceId_year_month_day: { deviceId, ...monthPeriod(now) } },
+    });
+    return {
+      count: bucket?.count ?? 0,
+      resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  // Rolling window: today plus the previous days - 1 days
+  const windowStart = new Date(periodStart(dayPeriod(now)).getTime() - (window.days - 1) * DAY_MS);
+  const buckets = (await client.noteUsage.findMany({ where: { deviceId, day: { gt: 0 } } }))
+    .map((bucket) => ({ count: bucket.count, date: periodStart(bucket) }))
+    .filter((bucket) => bucket.date >= windowStart && bucket.count > 0);
+
+  if (buckets.length === 0) {
+    return { count: 0, resetsAt: null };
+  }
+
+  // The oldest day in the window is the next one to drop out
+  const oldest = Math.min(...buckets.map((bucket) => bucket.date.getTime()));
+  return {
+    count: buckets.reduce((total, bucket) => total + bucket.count, 0),
+    resetsAt: new Date(oldest + window.days * DAY_MS),
+  };
+};
+
+/**
+ * Count a new note in the lifetime record and the current month and day buckets
+ */
+const recordNoteCreated = async (client: DbClient, deviceId: string, now: Date): Promise<void> => {
+  for (const period of [LIFETIME_PERIOD, monthPeriod(now), dayPeriod(now)]) {
+    await client.noteUsage.upsert({
+      where: { deviceId_year_month_day: { deviceId, ...period } },
+      create: { deviceId, ...period, count: 1 },
+      update: { count: { increment: 1 } },
+    });
+  }
+};
+
+/**
+ * Take one note from the device's quota, counting it if there is room
+ * Must run inside the transaction that creates the note: the lifetime record stays
+ * locked until it commits, and a rollback un-counts the note
+ * Returns false (counting nothing) once the plan's quota is reached
+ */
+export const consumeQuota = async (
+  tx: DbClient,
+  deviceId: string,
+  limits: PlanLimits,
+  now = new Date()
+): Promise<boolean> => {
+  // Concurrent creates for the same device queue up on this row lock
+  const [lifetime] = await tx.$queryRaw<{ count: number }[]>`
+    SELECT "count" FROM "note_usage"
+    WHERE "deviceId" = ${deviceId} AND "year" = 0 AND "month" = 0 AND "day" = 0
+    FOR UPDATE
+  `;
+
+  if (limits.noteQuota !== null) {
+    const usage = await getQuotaUsage(deviceId, limits.quotaWindow, lifetime?.count ?? 0, now, tx);
+    if (usage.count >= limits.noteQuota) {
+      return false;
+    }
+  }
+
+  await recordNoteCreated(tx, deviceId, now);
+  return true;
+};
+
+/**
+ * Delete daily buckets too old to be part of any rolling window (whole months at a time)
+ */
+export const cleanupDailyBuckets = async (): Promise<number> => {
+  try {
+    const cutoff = new Date(Date.now() - DAILY_BUCKET_RETENTION_DAYS * DAY_MS);
+    const cutoffPeriod = dayPeriod(cutoff);
+    const result = await db.noteUsage.deleteMany({
+      where: {
+        day: { gt: 0 },
+        OR: [
+          { year: { lt: cutoffPeriod.year } },
+          { year: cutoffPeriod.year, month: { lt: cutoffPeriod.month } },
+        ],
+      },
+    });
+    return result.count;
+  } catch (error) {
+    console.error("❌ [Cleanup] Failed to delete old usage buckets:", error);
+    return 0;
+  }
+};
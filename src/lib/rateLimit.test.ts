@@ -0,0 +1,61 @@
+/**
+ * Rate limiting behind a trusted proxy
+ *
+ * Runs the middleware in a bare Hono app with the memory store, the way
+ * Railway deploys it (TRUST_PROXY=true, one proxy hop).
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+
+// env.ts reads these on import
+process.env.TRUST_PROXY = "true";
+process.env.TRUST_PROXY_HOPS = "1";
+process.env.RATE_LIMIT_STORE = "memory";
+const { rateLimit } = await import("./rateLimit");
+
+const LIMIT = 3;
+
+const createApp = (name: string) => {
+  const app = new Hono();
+  app.post(
+    "/",
+    rateLimit({ name, limit: LIMIT, windowMs: 60 * 1000, deviceId: (c) => c.req.header("x-device-id") }),
+    (c) => c.text("ok")
+  );
+  return app;
+};
+
+const send = (app: Hono, forwardedFor: string, deviceId?: string) =>
+  app.request("/", {
+    method: "POST",
+    headers: { "x-forwarded-for": forwardedFor, ...(deviceId && { "x-device-id": deviceId }) },
+  });
+
+describe("rateLimit", () => {
+  test("spoofed X-Forwarded-For entries don't give the client a fresh bucket", async () => {
+    const app = createApp("spoofed-xff");
+
+    const statuses = [];
+    for (let i = 0; i < LIMIT + 2; i++) {
+      // The client made up the left entry, the proxy appended the real address
+      statuses.push((await send(app, `10.0.0.${i}, 203.0.113.7`)).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 200, 429, 429]);
+  });
+
+  test("a limited client can't open new device buckets", async () => {
+    const app = createApp("limited-client");
+    for (let i = 0; i < LIMIT; i++) {
+      await send(app, "203.0.113.8", `device-${i}`);
+    }
+
+    const limited = await send(app, "203.0.113.8", "device-fresh");
+    expect(limited.status).toBe(429);
+
+    // The rejected request didn't count against device-fresh
+    const fromElsewhere = await send(app, "198.51.100.1", "device-fresh");
+    expect(fromElsewhere.headers.get("RateLimit-Remaining")).toBe(String(LIMIT - 1));
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Rate Limiting
+ *
+ * Fixed-window request budgets per route group, counted separately for the
+ * client IP and (when the route has one) the deviceId. Responses carry the
+ * RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset headers, and
+ * limited requests get a 429 with Retry-After and the RATE_LIMITED code.
+ * The store is chosen with RATE_LIMIT_STORE in env.ts:
+ *   - "memory":   counters live in this process (single instance)
+ *   - "postgres": counters live in the rate_limit_bucket table (shared by replicas)
+ */
+
+import { type Context, type MiddlewareHandler } from "hono";
+import { getConnInfo } from "@hono/node-server/conninfo";
+import { db } from "../db";
+import { env } from "../env";
+import { type AppType } from "../types";
+import { type NoteErrorResponse } from "../shared/contracts";
+
+export type RateLimitRule = {
+  name: string; // Route group, buckets are never shared between groups
+  limit: number;
+  windowMs: number;
+  deviceId?: (c: Context<AppType>) => Promise<string | undefined> | string | undefined;
+};
+
+export type RateLimitHit = {
+  count: number;
+  resetAt: number; // Unix ms
+};
+
+export type RateLimitStore = {
+  kind: "memory" | "postgres";
+  hit: (key: string, windowMs: number) => Promise<RateLimitHit>;
+  cleanup: () => Promise<number>;
+};
+
+// Budgets per route group
+export const RATE_LIMITS = {
+  createNote: { name: "create-note", limit: 30, windowMs: 60 * 60 * 1000 }, // 30 per hour
+  readNote: { name: "read-note", limit: 30, windowMs: 60 * 1000 }, // 30 per minute (API and web reveal)
+  usage: { name: "usage", limit: 60, windowMs: 60 * 1000 }, // 60 per minute
+  upload: { name: "upload", limit: 20, windowMs: 10 * 60 * 1000 }, // 20 per 10 minutes
+  uploadUrl: { name: "upload-url", limit: 60, windowMs: 60 * 1000 }, // 60 per minute (fresh signed URLs)
+  handleSearch: { name: "handle-search", limit: 60, windowMs: 60 * 1000 }, // 60 per minute (autocomplete)
+  deviceSecret: { name: "device-secret", limit: 10, windowMs: 60 * 60 * 1000 }, // 10 per hour
+} satisfies Record<string, RateLimitRule>;
+
+const MAX_MEMORY_BUCKETS = 10_000; // Sweep expired buckets past this size, then evict the oldest
+const MEMORY_EVICTION_BATCH = 1_000; // Buckets dropped at once when the sweep frees nothing
+
+/**
+ * In-memory store for a single instance
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const buckets = new Map<string, RateLimitHit>();
+
+  const sweep = (now: number): number => {
+    let removed = 0;
+    for (const [key, bucket] of buckets) {
+      if (bucket.resetAt <= now) {
+        buckets.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  };
+
+  // Hard cap: a Map iterates in insertion order, so the first keys hold the oldest windows
+  const evictOldest = () => {
+    let evicted = 0;
+    for (const key of buckets.keys()) {
+      if (evicted >= MEMORY_EVICTION_BATCH) {
+        break;
+      }
+      buckets.delete(key);
+      evicted++;
+    }
+  };
+
+  return {
+    kind: "memory",
+    hit: async (key, windowMs) => {
+      const now = Date.now();
+      const bucket = buckets.get(key);
+      if (bucket && bucket.resetAt > now) {
+        bucket.count++;
+        return { ...bucket };
+      }
+      if (buckets.size >= MAX_MEMORY_BUCKETS && sweep(now) === 0) {
+        evictOldest();
+      }
+      const fresh = { count: 1, resetAt: now + windowMs };
+      buckets.delete(key); // Re-insert so the new window moves to the back of the eviction order
+      buckets.set(key, fresh);
+      return { ...fresh };
+    },
+    cleanup: async () => sweep(Date.now()),
+  };
+};
+
+/**
+ * Postgres store shared by every replica
+ * A single upsert counts the hit and starts a new window once the old one has passed
+ */
+export const createPostgresRateLimitStore = (): RateLimitStore => {
+  return {
+    kind: "postgres",
+    hit: async (key, windowMs) => {
+      const now = new Date();
+      const resetAt = new Date(now.getTime() + windowMs);
+      const [bucket] = await db.$queryRaw<{ count: number; resetAt: Date }[]>`
+        INSERT INTO "rate_limit_bucket" ("key", "count", "resetAt")
+        VALUES (${key}, 1, ${resetAt})
+        ON CONFLICT ("key") DO UPDATE SET
+          "count" = CASE WHEN "rate_limit_bucket"."resetAt" <= ${now} THEN 1 ELSE "rate_limit_bucket"."count" + 1 END,
+          "resetAt" = CASE WHEN "rate_limit_bucket"."resetAt" <= ${now} THEN EXCLUDED."resetAt" ELSE "rate_limit_bucket"."resetAt" END
+        RETURNING "count", "resetAt"
+      `;
+      return { count: bucket!.count, resetAt: bucket!.resetAt.getTime() };
+    },
+    cleanup: async () => {
+      const result = await db.rateLimitBucket.deleteMany({ where: { resetAt: { lt: new Date() } } });
+      return result.count;
+    },
+  };
+};
+
+const rateLimitStore: RateLimitStore =
+  env.RATE_LIMIT_STORE === "postgres" ? createPostgresRateLimitStore() : createMemoryRateLimitStore();
+
+/**
+ * Client IP, taken from X-Forwarded-For only when running behind a trusted proxy
+ * Each proxy appends the address it saw, so the entries a client sent sit on the left:
+ * the one appended by the first of TRUST_PROXY_HOPS trusted proxies is the real client
+ */
+const getClientIp = (c: Context<AppType>): string => {
+  if (env.TRUST_PROXY === "true") {
+    const forwarded = (c.req.header("x-forwarded-for") ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const hops = Number(env.TRUST_PROXY_HOPS);
+    const client = forwarded[Math.max(0, forwarded.length - hops)];
+    if (client) {
+      return client;
+    }
+  }
+  try {
+    return getConnInfo(c).remote.address ?? "unknown";
+  } catch {
+    return "unknown";
+  }
+};
+
+/**
+ * Rate limiting middleware for one route group
+ * Fails open if the store is unreachable, throttling must not take the API down
+ */
+export const rateLimit = (rule: RateLimitRule): MiddlewareHandler<AppType> => {
+  return async (c, next) => {
+    const identifiers = [`ip:${getClientIp(c)}`];
+    const deviceId = await rule.deviceId?.(c);
+    if (deviceId) {
+      identifiers.push(`device:${deviceId}`);
+    }
+
+    // IP first: a request already over its limit doesn't open buckets for the other
+    // identifiers, so a limited client can't flood the store (and evict its own bucket)
+    const hits: RateLimitHit[] = [];
+    try {
+      for (const id of identifiers) {
+        const hit = await rateLimitStore.hit(`${rule.name}:${id}`, rule.windowMs);
+        hits.push(hit);
+        if (hit.count > rule.limit) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error(`❌ [RateLimit] Store failed for ${rule.name}, letting request through:`, error);
+      return next();
+    }
+
+    // Report the bucket closest to (or furthest past) its limit
+    const tightest = hits.reduce((worst, hit) => (hit.count > worst.count ? hit : worst));
+    const resetSeconds = Math.max(0, Math.ceil((tightest.resetAt - Date.now()) / 1000));
+    c.header("RateLimit-Limit", String(rule.limit));
+    c.header("RateLimit-Remaining", String(Math.max(0, rule.limit - tightest.count)));
+    c.header("RateLimit-Reset", String(resetSeconds));
+
+    if (tightest.count > rule.limit) {
+      console.log(`🚦 [RateLimit] ${rule.name} limit reached for ${identifiers.join(", ")}`);
+      c.header("Retry-After", String(resetSeconds));
+      return c.json(
+        { error: "Too many requests. Please try again later.", code: "RATE_LIMITED" } satisfies NoteErrorResponse,
+        429
+      );
+    }
+
+    return next();
+  };
+};
+
+/**
+ * Device ID from the JSON body (the body is cached, validators can still read it)
+ */
+export const deviceIdFromJsonBody = async (c: Context<AppType>): Promise<string | undefined> => {
+  try {
+    const body = await c.req.json();
+    return typeof body?.deviceId === "string" ? body.deviceId : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Forget buckets whose window has passed
+ */
+export const cleanupRateLimitBuckets = async (): Promise<number> => {
+  try {
+    return await rateLimitStore.cleanup();
+  } catch (error) {
+    console.error("❌ [Cleanup] Failed to delete rate limit buckets:", error);
+    return 0;
+  }
+};
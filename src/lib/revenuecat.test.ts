@@ -0,0 +1,87 @@
+/**
+ * RevenueCat entitlement checks against a stub server
+ *
+ * REVENUECAT_API_URL points the helper at a local Bun server that answers
+ * like the subscribers endpoint, so no real RevenueCat account is needed.
+ */
+
+import { afterAll, describe, expect, test } from "bun:test";
+
+const API_KEY = "test-revenuecat-key";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const entitlement = (expiresAt: Date | null) => ({
+  expires_date: expiresAt?.toISOString() ?? null,
+  purchase_date: new Date(Date.now() - DAY_MS).toISOString(),
+  product_identifier: "destructnote_monthly",
+});
+
+const renewsAt = new Date(Date.now() + 30 * DAY_MS);
+
+// Entitlements per app_user_id, devices missing here get a 404 like RevenueCat
+const subscribers: Record<string, Record<string, ReturnType<typeof entitlement>>> = {
+  "device-active": { plus: entitlement(null), pro: entitlement(renewsAt) },
+  "device-expired": { pro: entitlement(new Date(Date.now() - DAY_MS)) },
+  "device-unknown-entitlement": { gold: entitlement(renewsAt) },
+};
+
+const stub = Bun.serve({
+  port: 0,
+  fetch: (request) => {
+    if (request.headers.get("Authorization") !== `Bearer ${API_KEY}`) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    const deviceId = decodeURIComponent(new URL(request.url).pathname.split("/").pop() ?? "");
+    const entitlements = subscribers[deviceId];
+    if (!entitlements) {
+      return Response.json({ code: 7259, message: "Subscriber not found" }, { status: 404 });
+    }
+    return Response.json({ subscriber: { entitlements, subscriptions: {} } });
+  },
+});
+
+// The helper reads its configuration on import
+process.env.REVENUECAT_API_KEY = API_KEY;
+process.env.REVENUECAT_API_URL = `http://localhost:${stub.port}/v1`;
+const { getBestPremiumEntitlement, getPremiumEntitlement } = await import("./revenuecat");
+
+describe("getPremiumEntitlement", () => {
+  afterAll(() => stub.stop(true));
+
+  test("an active entitlement reports the highest tier and its expiry", async () => {
+    expect(await getPremiumEntitlement("device-active")).toEqual({
+      status: "active",
+      tier: "pro",
+      expiresAt: renewsAt,
+    });
+  });
+
+  test("an expired entitlement is inactive", async () => {
+    expect(await getPremiumEntitlement("device-expired")).toEqual({ status: "inactive", tier: "free", expiresAt: null });
+  });
+
+  test("entitlements that map to no plan are ignored", async () => {
+    const result = await getPremiumEntitlement("device-unknown-entitlement");
+    expect(result.status).toBe("inactive");
+  });
+
+  test("a subscriber RevenueCat doesn't know (404) is inactive", async () => {
+    expect(await getPremiumEntitlement("device-never-purchased")).toEqual({
+      status: "inactive",
+      tier: "free",
+      expiresAt: null,
+    });
+  });
+
+  test("the best entitlement across claimed devices wins", async () => {
+    const result = await getBestPremiumEntitlement(["device-expired", "device-never-purchased", "device-active"]);
+    expect(result).toMatchObject({ status: "active", tier: "pro" });
+  });
+
+  test("an unreachable RevenueCat is unavailable, not inactive", async () => {
+    stub.stop(true);
+
+    expect(await getPremiumEntitlement("device-active")).toEqual({ status: "unavailable", tier: "free", expiresAt: null });
+    expect(await getBestPremiumEntitlement(["device-active", "device-expired"])).toMatchObject({ status: "unavailable" });
+  });
+});
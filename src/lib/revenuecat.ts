@@ -5,8 +5,12 @@
  * This ensures users can't bypass subscription checks by manipulating the client.
  */
 
+import { type PlanTier } from '../shared/contracts';
+import { ENTITLEMENT_TIERS, isHigherTier, tierForEntitlements } from './plans';
+
 const REVENUECAT_API_KEY = process.env.REVENUECAT_API_KEY;
-const REVENUECAT_API_URL = 'https://api.revenuecat.com/v1';
+// Overridable so a stub server can stand in for RevenueCat
+const REVENUECAT_API_URL = process.env.REVENUECAT_API_URL || 'https://api.revenuecat.com/v1';
 
 type RevenueCatEntitlement = {
   expires_date: string | null;
@@ -30,6 +34,20 @@ type RevenueCatSubscriberResponse = {
   };
 };
 
+type SubscriberLookup =
+  | { status: 'found'; data: RevenueCatSubscriberResponse }
+  | { status: 'not_found' }
+  | { status: 'unavailable' };
+
+// Result of a premium check: "unavailable" when RevenueCat couldn't be asked
+export type PremiumEntitlementStatus = 'active' | 'inactive' | 'unavailable';
+
+export type PremiumEntitlement = {
+  status: PremiumEntitlementStatus;
+  tier: PlanTier; // "free" unless active
+  expiresAt: Date | null; // null for lifetime purchases or when unknown
+};
+
 /**
  * Check if RevenueCat is configured on the backend
  */
@@ -38,15 +56,13 @@ export const isRevenueCatConfigured = (): boolean => {
 };
 
 /**
- * Get subscriber info from RevenueCat with timeout
+ * Look up a subscriber, telling "never purchased" apart from RevenueCat being unreachable
  * Uses device ID as the app_user_id since that's what the mobile app uses
  */
-export const getSubscriberInfo = async (
-  deviceId: string
-): Promise<RevenueCatSubscriberResponse | null> => {
+const lookupSubscriber = async (deviceId: string): Promise<SubscriberLookup> => {
   if (!REVENUECAT_API_KEY) {
     console.log('[RevenueCat] API key not configured, skipping subscription check');
-    return null;
+    return { status: 'unavailable' };
   }
 
   try {
@@ -74,53 +90,104 @@ export const getSubscriberInfo = async (
       // 404 means subscriber doesn't exist (never purchased)
       if (response.status === 404) {
         console.log(`[RevenueCat] Subscriber not found for: ${deviceId}`);
-        return null;
+        return { status: 'not_found' };
       }
       const errorText = await response.text();
       console.error('[RevenueCat] API error:', response.status, errorText);
-      return null;
+      return { status: 'unavailable' };
     }
 
     const data = await response.json() as RevenueCatSubscriberResponse;
     console.log(`[RevenueCat] Subscriber data for ${deviceId}:`, JSON.stringify(data.subscriber.entitlements));
-    return data;
+    return { status: 'found', data };
   } catch (error: any) {
     if (error?.name === 'AbortError') {
       console.log('[RevenueCat] Request timed out, skipping verification');
     } else {
       console.error('[RevenueCat] Failed to fetch subscriber info:', error);
     }
-    return null;
+    return { status: 'unavailable' };
   }
 };
 
 /**
- * Check if a device has an active premium entitlement
- * Returns true if the user has an active, non-expired premium subscription
+ * Get subscriber info from RevenueCat with timeout
+ * Returns null if the subscriber doesn't exist or RevenueCat can't be reached
  */
-export const hasActivePremium = async (deviceId: string): Promise<boolean> => {
-  const subscriberInfo = await getSubscriberInfo(deviceId);
+export const getSubscriberInfo = async (
+  deviceId: string
+): Promise<RevenueCatSubscriberResponse | null> => {
+  const lookup = await lookupSubscriber(deviceId);
+  return lookup.status === 'found' ? lookup.data : null;
+};
 
-  if (!subscriberInfo) {
-    return false;
+/**
+ * Get a device's paid entitlement (the highest active tier) with its expiry
+ * Returns "unavailable" instead of "inactive" when RevenueCat couldn't answer
+ */
+export const getPremiumEntitlement = async (deviceId: string): Promise<PremiumEntitlement> => {
+  const lookup = await lookupSubscriber(deviceId);
+
+  if (lookup.status !== 'found') {
+    return { status: lookup.status === 'not_found' ? 'inactive' : 'unavailable', tier: 'free', expiresAt: null };
   }
 
-  const premiumEntitlement = subscriberInfo.subscriber.entitlements['premium'];
+  // Keep only known, non-expired entitlements
+  const now = new Date();
+  const active = Object.entries(lookup.data.subscriber.entitlements).filter(([id, entitlement]) => {
+    if (!ENTITLEMENT_TIERS[id]) {
+      return false;
+    }
+    if (entitlement.expires_date && new Date(entitlement.expires_date) < now) {
+      console.log(`[RevenueCat] Entitlement ${id} expired for device ${deviceId} at ${entitlement.expires_date}`);
+      return false;
+    }
+    return true;
+  });
 
-  if (!premiumEntitlement) {
-    return false;
+  if (active.length === 0) {
+    return { status: 'inactive', tier: 'free', expiresAt: null };
   }
 
-  // Check if entitlement has expired
-  if (premiumEntitlement.expires_date) {
-    const expiresDate = new Date(premiumEntitlement.expires_date);
-    const now = new Date();
+  const tier = tierForEntitlements(active.map(([id]) => id));
+  const [, entitlement] = active.find(([id]) => ENTITLEMENT_TIERS[id] === tier)!;
 
-    if (expiresDate < now) {
-      console.log(`[RevenueCat] Premium expired for device ${deviceId} at ${premiumEntitlement.expires_date}`);
-      return false;
-    }
+  return {
+    status: 'active',
+    tier,
+    expiresAt: entitlement.expires_date ? new Date(entitlement.expires_date) : null,
+  };
+};
+
+/**
+ * Best paid entitlement across several devices (the devices claimed by one account)
+ * "unavailable" only if no device is active and RevenueCat didn't answer for some of them
+ */
+export const getBestPremiumEntitlement = async (deviceIds: string[]): Promise<PremiumEntitlement> => {
+  const entitlements = await Promise.all(deviceIds.map(getPremiumEntitlement));
+  const active = entitlements
+    .filter((entitlement) => entitlement.status === 'active')
+    .reduce<PremiumEntitlement | null>((best, entitlement) => (!best || isHigherTier(entitlement.tier, best.tier) ? entitlement : best), null);
+
+  if (active) {
+    return active;
   }
+  const unavailable = entitlements.some((entitlement) => entitlement.status === 'unavailable');
+  return { status: unavailable ? 'unavailable' : 'inactive', tier: 'free', expiresAt: null };
+};
+
+/**
+ * Check a device's premium entitlement
+ * Returns "unavailable" instead of "inactive" when RevenueCat couldn't answer
+ */
+export const checkPremiumEntitlement = async (deviceId: string): Promise<PremiumEntitlementStatus> => {
+  return (await getPremiumEntitlement(deviceId)).status;
+};
 
-  return true;
+/**
+ * Check if a device has an active premium entitlement
+ * Returns true if the user has an active, non-expired premium subscription
+ */
+export const hasActivePremium = async (deviceId: string): Promise<boolean> => {
+  return (await checkPremiumEntitlement(deviceId)) === 'active';
 };
@@ -0,0 +1,143 @@
+/**
+ * RevenueCat Webhook Events
+ *
+ * Applies subscription lifecycle events to the NoteUsage records of the
+ * devices involved (the app uses the device ID as RevenueCat's app_user_id),
+ * or to the account record of devices claimed by a signed-in user.
+ * Every event is stored by ID in the same transaction as its changes, so
+ * RevenueCat retries and duplicate deliveries are applied only once.
+ */
+
+import { z } from "zod";
+import { db } from "../db";
+import { type Prisma } from "../../generated/prisma";
+import { type PlanTier } from "../shared/contracts";
+import { getPremiumEntitlement } from "./revenuecat";
+import { tierForEntitlements } from "./plans";
+import { LIFETIME_PERIOD } from "./quota";
+import { accountUsageKey } from "./accounts";
+
+// Only the fields we use, RevenueCat sends many more
+export const revenueCatWebhookSchema = z.object({
+  event: z.object({
+    id: z.string().min(1),
+    type: z.string(),
+    app_user_id: z.string().optional(),
+    aliases: z.array(z.string()).nullish(),
+    entitlement_ids: z.array(z.string()).nullish(),
+    expiration_at_ms: z.number().nullish(),
+    transferred_from: z.array(z.string()).nullish(),
+    transferred_to: z.array(z.string()).nullish(),
+  }),
+});
+export type RevenueCatWebhookEvent = z.infer<typeof revenueCatWebhookSchema>["event"];
+
+export type WebhookResult = "applied" | "ignored" | "duplicate";
+
+type PremiumChange = {
+  deviceIds: string[];
+  tier: PlanTier;
+  premiumExpiresAt: Date | null;
+};
+
+// Events that start or extend premium until the new expiration
+const GRANT_EVENTS = new Set(["INITIAL_PURCHASE", "RENEWAL", "PRODUCT_CHANGE"]);
+// Events that keep premium only until the expiration they carry (refunds expire immediately)
+const EXPIRING_EVENTS = new Set(["CANCELLATION", "BILLING_ISSUE"]);
+
+const eventDeviceIds = (event: RevenueCatWebhookEvent): string[] =>
+  Array.from(new Set([event.app_user_id, ...(event.aliases ?? [])].filter((id): id is string => !!id)));
+
+/**
+ * Work out which devices gain or lose premium for an event
+ * TRANSFER looks up the receiving devices in RevenueCat for their expiry
+ */
+const planPremiumChanges = async (event: RevenueCatWebhookEvent): Promise<PremiumChange[]> => {
+  if (event.type === "TRANSFER") {
+    const changes: PremiumChange[] = [
+      { deviceIds: event.transferred_from ?? [], tier: "free", premiumExpiresAt: null },
+    ];
+    for (const deviceId of event.transferred_to ?? []) {
+      const entitlement = await getPremiumEntitlement(deviceId);
+      if (entitlement.status === "active") {
+        changes.push({ deviceIds: [deviceId], tier: entitlement.tier, premiumExpiresAt: entitlement.expiresAt });
+      }
+    }
+    return changes;
+  }
+
+  // Entitlements that don't map to a plan don't affect note limits
+  // (events without entitlement_ids predate tiers and mean the legacy premium entitlement)
+  const tier = tierForEntitlements(event.entitlement_ids ?? ["premium"]);
+  if (tier === "free") {
+    return [];
+  }
+
+  const deviceIds = eventDeviceIds(event);
+  const expiresAt = event.expiration_at_ms ? new Date(event.expiration_at_ms) : null;
+
+  if (GRANT_EVENTS.has(event.type)) {
+    return [{ deviceIds, tier, premiumExpiresAt: expiresAt }];
+  }
+  if (EXPIRING_EVENTS.has(event.type)) {
+    const stillActive = !expiresAt || expiresAt > new Date();
+    return [{ deviceIds, tier: stillActive ? tier : "free", premiumExpiresAt: expiresAt }];
+  }
+  if (event.type === "EXPIRATION") {
+    return [{ deviceIds, tier: "free", premiumExpiresAt: expiresAt }];
+  }
+  return [];
+};
+
+/**
+ * Write a premium change to the lifetime usage record of each device (its account's once claimed)
+ * Devices that never created a note get a lifetime record so the purchase isn't lost
+ * A downgrade of an account is re-checked against its other devices on the next usage check
+ */
+const applyPremiumChange = async (tx: Prisma.TransactionClient, change: PremiumChange): Promise<void> => {
+  for (const eventDeviceId of change.deviceIds) {
+    const claim = await tx.deviceClaim.findUnique({ where: { deviceId: eventDeviceId } });
+    const deviceId = claim ? accountUsageKey(claim.userId) : eventDeviceId;
+    const data = {
+      isPremium: change.tier !== "free",
+      tier: change.tier,
+      premiumExpiresAt: change.premiumExpiresAt,
+      premiumProvisionalUntil: null,
+    };
+    const { count } = await tx.noteUsage.updateMany({ where: { deviceId, ...LIFETIME_PERIOD }, data });
+    if (count === 0 && data.isPremium) {
+      await tx.noteUsage.create({ data: { deviceId, ...LIFETIME_PERIOD, count: 0, ...data } });
+    }
+  }
+};
+
+/**
+ * Apply a webhook event once
+ */
+export const handleRevenueCatEvent = async (event: RevenueCatWebhookEvent): Promise<WebhookResult> => {
+  const existing = await db.revenueCatEvent.findUnique({ where: { id: event.id } });
+  if (existing) {
+    return "duplicate";
+  }
+
+  const changes = await planPremiumChanges(event);
+
+  try {
+    await db.$transaction(async (tx) => {
+      await tx.revenueCatEvent.create({
+        data: { id: event.id, type: event.type, appUserId: event.app_user_id ?? "" },
+      });
+      for (const change of changes) {
+        await applyPremiumChange(tx, change);
+      }
+    });
+  } catch (error: any) {
+    // Unique violation: a concurrent delivery of the same event won
+    if (error?.code === "P2002") {
+      return "duplicate";
+    }
+    throw error;
+  }
+
+  return changes.length > 0 ? "applied" : "ignored";
+};
@@ -0,0 +1,125 @@
+/**
+ * Signed Upload URLs
+ *
+ * Uploaded files are only served through short-lived signed URLs:
+ *   /uploads/<key>?expires=<unix seconds>&sig=<hex HMAC-SHA256>[&once=1]
+ * The HMAC covers the path, the expiry and the single-use flag, keyed with
+ * UPLOAD_SIGNING_SECRET (or BETTER_AUTH_SECRET when unset). Single-use URLs
+ * are remembered until they expire so they can only be fetched once.
+ * Each upload also gets an upload token (only its SHA-256 hash is stored) that
+ * lets the uploader ask for fresh URLs once the first one has expired.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { db } from "../db";
+import { env } from "../env";
+
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 15 * 60; // 15 minutes
+
+// Bundled assets that are served without a signature
+export const PUBLIC_UPLOAD_ASSETS = new Set(["logo-destructnote.png"]);
+
+export type SignedUrl = {
+  url: string;
+  expiresAt: Date;
+};
+
+export type SignedUrlCheck = "valid" | "invalid" | "expired" | "used";
+
+const signingSecret = () => env.UPLOAD_SIGNING_SECRET ?? env.BETTER_AUTH_SECRET;
+
+const sign = (path: string, expires: number, singleUse: boolean): string =>
+  createHmac("sha256", signingSecret())
+    .update(`${path}\n${expires}\n${singleUse ? 1 : 0}`)
+    .digest("hex");
+
+/**
+ * Create a signed URL for an uploaded file
+ */
+export const signUploadUrl = (
+  key: string,
+  options: { ttlSeconds?: number; singleUse?: boolean } = {}
+): SignedUrl => {
+  const { ttlSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS, singleUse = false } = options;
+  const path = `/uploads/${key}`;
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const params = new URLSearchParams({ expires: String(expires), sig: sign(path, expires, singleUse) });
+  if (singleUse) {
+    params.set("once", "1");
+  }
+  return { url: `${path}?${params}`, expiresAt: new Date(expires * 1000) };
+};
+
+const hashUploadToken = (token: string): Buffer => createHash("sha256").update(token).digest();
+
+/**
+ * Create an upload token and the hash to store with the upload
+ */
+export const createUploadToken = (): { token: string; hash: string } => {
+  const token = randomBytes(32).toString("base64url");
+  return { token, hash: hashUploadToken(token).toString("hex") };
+};
+
+/**
+ * Check a presented upload token against the stored hash in constant time
+ */
+export const verifyUploadToken = (token: string, storedHash: string): boolean => {
+  const expected = Buffer.from(storedHash, "hex");
+  const actual = hashUploadToken(token);
+  return expected.length === actual.length && timingSafeEqual(actual, expected);
+};
+
+/**
+ * Verify a signed URL, burning it if it is single-use
+ */
+export const verifyUploadUrl = async (
+  path: string,
+  query: { expires?: string; sig?: string; once?: string }
+): Promise<SignedUrlCheck> => {
+  const expires = Number(query.expires);
+  if (!query.sig || !Number.isInteger(expires)) {
+    return "invalid";
+  }
+
+  const singleUse = query.once === "1";
+  const expected = Buffer.from(sign(path, expires, singleUse), "hex");
+  const actual = Buffer.from(query.sig, "hex");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return "invalid";
+  }
+
+  if (expires * 1000 <= Date.now()) {
+    return "expired";
+  }
+
+  if (singleUse) {
+    try {
+      await db.consumedSignedUrl.create({
+        data: { signature: query.sig, expiresAt: new Date(expires * 1000) },
+      });
+    } catch (error: any) {
+      // Unique violation: someone already used this URL
+      if (error?.code === "P2002") {
+        return "used";
+      }
+      throw error;
+    }
+  }
+
+  return "valid";
+};
+
+/**
+ * Forget single-use signatures that have expired anyway
+ */
+export const cleanupConsumedSignedUrls = async (): Promise<number> => {
+  try {
+    const result = await db.consumedSignedUrl.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return result.count;
+  } catch (error) {
+    console.error("❌ [Cleanup] Failed to delete consumed signed URLs:", error);
+    return 0;
+  }
+};
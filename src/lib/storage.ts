@@ -0,0 +1,142 @@
+/**
+ * Blob Storage
+ *
+ * Uploaded files go through this interface instead of touching the disk
+ * directly, so the server also runs on ephemeral containers (e.g. Railway).
+ * The driver is chosen with STORAGE_DRIVER in env.ts:
+ *   - "local": files in STORAGE_LOCAL_DIR (default ./uploads)
+ *   - "s3":    any S3-compatible bucket (AWS, R2, MinIO...), path-style URLs
+ *              so a local MinIO stand-in works with just S3_ENDPOINT
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { S3Client } from "bun";
+import { env } from "../env";
+
+export type StoredBlob = {
+  data: ArrayBuffer;
+  contentType: string;
+};
+
+export type BlobStorage = {
+  driver: "local" | "s3";
+  put: (key: string, data: Uint8Array, contentType: string) => Promise<void>;
+  get: (key: string) => Promise<StoredBlob | null>;
+  delete: (key: string) => Promise<void>;
+};
+
+// Keys are flat file names, never paths
+const KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export const isValidStorageKey = (key: string): boolean => KEY_PATTERN.test(key) && !key.includes("..");
+
+const assertValidKey = (key: string) => {
+  if (!isValidStorageKey(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+/**
+ * Local disk driver - the content type is derived from the file extension
+ */
+export const createLocalDiskStorage = (root: string): BlobStorage => {
+  return {
+    driver: "local",
+    put: async (key, data) => {
+      assertValidKey(key);
+      await fs.mkdir(root, { recursive: true });
+      await fs.writeFile(path.join(root, key), data);
+    },
+    get: async (key) => {
+      if (!isValidStorageKey(key)) {
+        return null;
+      }
+      try {
+        const data = await fs.readFile(path.join(root, key));
+        const contentType = CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream";
+        return { data: new Uint8Array(data).buffer, contentType };
+      } catch (error: any) {
+        if (error?.code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+    delete: async (key) => {
+      assertValidKey(key);
+      await fs.rm(path.join(root, key), { force: true });
+    },
+  };
+};
+
+export type S3StorageOptions = {
+  bucket: string;
+  endpoint?: string;
+  region: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+};
+
+/**
+ * S3-compatible driver
+ */
+export const createS3Storage = (options: S3StorageOptions): BlobStorage => {
+  const client = new S3Client(options);
+
+  return {
+    driver: "s3",
+    put: async (key, data, contentType) => {
+      assertValidKey(key);
+      await client.write(key, data, { type: contentType });
+    },
+    get: async (key) => {
+      if (!isValidStorageKey(key)) {
+        return null;
+      }
+      const file = client.file(key);
+      if (!(await file.exists())) {
+        return null;
+      }
+      const stat = await file.stat();
+      return { data: await file.arrayBuffer(), contentType: stat.type };
+    },
+    delete: async (key) => {
+      assertValidKey(key);
+      await client.delete(key);
+    },
+  };
+};
+
+/**
+ * Build the storage driver selected in env
+ */
+const createStorage = (): BlobStorage => {
+  if (env.STORAGE_DRIVER === "s3") {
+    if (!env.S3_BUCKET) {
+      throw new Error("S3_BUCKET is required when STORAGE_DRIVER=s3");
+    }
+    console.log(`🪣 [Storage] Using S3 bucket "${env.S3_BUCKET}"${env.S3_ENDPOINT ? ` at ${env.S3_ENDPOINT}` : ""}`);
+    return createS3Storage({
+      bucket: env.S3_BUCKET,
+      endpoint: env.S3_ENDPOINT,
+      region: env.S3_REGION,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  const root = path.resolve(process.cwd(), env.STORAGE_LOCAL_DIR);
+  console.log("📁 [Storage] Using local disk:", root);
+  return createLocalDiskStorage(root);
+};
+
+export const storage = createStorage();
@@ -0,0 +1,49 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { issueDeviceSecretRequestSchema, type IssueDeviceSecretResponse } from "../shared/contracts";
+import { type AppType } from "../types";
+import { issueDeviceSecret } from "../lib/deviceSecrets";
+import { deviceIdFromJsonBody, RATE_LIMITS, rateLimit } from "../lib/rateLimit";
+
+const devicesRouter = new Hono<AppType>();
+
+const deviceSecretRateLimit = rateLimit({ ...RATE_LIMITS.deviceSecret, deviceId: deviceIdFromJsonBody });
+
+// ============================================
+// POST /api/devices/secret - Issue the device's secret on first use
+// ============================================
+// The app calls this once after install and stores the secret with its deviceId.
+// It proves the device when linking it to an account (POST /api/me/devices/claim)
+// and when changing its push token (POST /api/notifications/push-token).
+// Installs from before device secrets send the manage token of one of their notes
+devicesRouter.post("/secret", deviceSecretRateLimit, zValidator("json", issueDeviceSecretRequestSchema), async (c) => {
+  const { deviceId, manageToken } = c.req.valid("json");
+  console.log(`🔑 [Devices] Secret requested for device: ${deviceId}`);
+
+  try {
+    const result = await issueDeviceSecret(deviceId, manageToken);
+
+    if (result.status === "already_issued") {
+      console.log(`🚫 [Devices] Secret already issued for device: ${deviceId}`);
+      return c.json({ error: "A secret was already issued for this device" }, 409);
+    }
+
+    if (result.status === "in_use") {
+      console.log(`🚫 [Devices] Device already in use, no secret issued: ${deviceId}`);
+      return c.json({ error: "This device is already in use, send the manage token of one of its notes" }, 409);
+    }
+
+    if (result.status === "unavailable") {
+      console.log(`⏳ [Devices] RevenueCat unreachable, secret not issued: ${deviceId}`);
+      return c.json({ error: "Subscription service unavailable, try again later" }, 503);
+    }
+
+    console.log(`✅ [Devices] Secret issued for device: ${deviceId}`);
+    return c.json({ success: true, deviceSecret: result.secret } satisfies IssueDeviceSecretResponse);
+  } catch (error) {
+    console.error("❌ [Devices] Failed to issue device secret:", error);
+    return c.json({ error: "Failed to issue device secret" }, 500);
+  }
+});
+
+export { devicesRouter };
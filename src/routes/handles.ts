@@ -0,0 +1,120 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  handleSchema,
+  registerHandleRequestSchema,
+  searchHandlesQuerySchema,
+  type HandleKeyResponse,
+  type RegisterHandleResponse,
+  type SearchHandlesResponse,
+} from "../shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { registerHandle } from "../lib/handles";
+import { RATE_LIMITS, rateLimit } from "../lib/rateLimit";
+import { getActivePublicKey, toPublicKey } from "../lib/publicKeys";
+
+const handlesRouter = new Hono<AppType>();
+
+const MAX_SEARCH_RESULTS = 10;
+
+// Handles are only visible to, and registered by, signed-in users
+handlesRouter.use("*", async (c, next) => {
+  if (!c.get("user")) {
+    console.log(`❌ [Handles] Unauthorized ${c.req.method} ${c.req.path} - no user session`);
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  return next();
+});
+
+// ============================================
+// POST /api/handles - Register or change your handle
+// ============================================
+// Notes sent to @handle land in the owner's inbox (GET /api/inbox). Renames are limited
+// and the old handle stays held for its owner for a while (see src/lib/handles.ts)
+handlesRouter.post("/", zValidator("json", registerHandleRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const { handle } = c.req.valid("json");
+  console.log(`🏷️ [Handles] User ${user.id} registering @${handle}`);
+
+  try {
+    const result = await registerHandle(user.id, handle);
+
+    if (result.status === "taken") {
+      console.log(`🚫 [Handles] @${handle} is already taken or held for its previous owner`);
+      return c.json({ error: "This handle is already taken" }, 409);
+    }
+
+    if (result.status === "cooldown") {
+      console.log(`⏳ [Handles] User ${user.id} renamed too recently, next rename at ${result.retryAt.toISOString()}`);
+      return c.json({ error: "You changed your handle recently", retryAt: result.retryAt.toISOString() }, 429);
+    }
+
+    console.log(`✅ [Handles] @${handle} registered for user: ${user.id}`);
+    return c.json({ success: true, handle } satisfies RegisterHandleResponse);
+  } catch (error: any) {
+    // Unique violation: another user has this handle
+    if (error?.code === "P2002") {
+      console.log(`🚫 [Handles] @${handle} is already taken`);
+      return c.json({ error: "This handle is already taken" }, 409);
+    }
+    console.error("❌ [Handles] Failed to register handle:", error);
+    return c.json({ error: "Failed to register handle" }, 500);
+  }
+});
+
+// ============================================
+// GET /api/handles/search?q= - Recipient autocomplete
+// ============================================
+// Handles starting with q in alphabetical order, so an exact match comes first
+handlesRouter.get(
+  "/search",
+  rateLimit(RATE_LIMITS.handleSearch),
+  zValidator("query", searchHandlesQuerySchema),
+  async (c) => {
+    const { q } = c.req.valid("query");
+
+    try {
+      const profiles = await db.profile.findMany({
+        where: { handle: { startsWith: q } },
+        select: { handle: true },
+        orderBy: { handle: "asc" },
+        take: MAX_SEARCH_RESULTS,
+      });
+
+      return c.json({ handles: profiles.map((profile) => profile.handle) } satisfies SearchHandlesResponse);
+    } catch (error) {
+      console.error("❌ [Handles] Failed to search handles:", error);
+      return c.json({ error: "Failed to search handles" }, 500);
+    }
+  }
+);
+
+// ============================================
+// GET /api/handles/:handle/key - Public key to encrypt notes to
+// ============================================
+// Senders wrap the note's content key to this key (keyEnvelope on POST /api/notes).
+// Apps should show the fingerprint so users can compare it out of band
+handlesRouter.get("/:handle/key", rateLimit(RATE_LIMITS.handleSearch), async (c) => {
+  const parsed = handleSchema.safeParse(c.req.param("handle"));
+  if (!parsed.success) {
+    return c.json({ error: "Invalid handle" }, 400);
+  }
+  const handle = parsed.data;
+
+  try {
+    const profile = await db.profile.findUnique({ where: { handle }, select: { userId: true } });
+    const key = profile ? await getActivePublicKey(profile.userId) : null;
+    if (!key) {
+      console.log(`❌ [Handles] No public key for @${handle}`);
+      return c.json({ error: "This handle has no public key" }, 404);
+    }
+
+    return c.json({ handle, key: toPublicKey(key) } satisfies HandleKeyResponse);
+  } catch (error) {
+    console.error("❌ [Handles] Failed to look up public key:", error);
+    return c.json({ error: "Failed to look up public key" }, 500);
+  }
+});
+
+export { handlesRouter };
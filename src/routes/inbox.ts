@@ -0,0 +1,116 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  revealNoteRequestSchema,
+  type GetNoteResponse,
+  type InboxResponse,
+  type NoteErrorResponse,
+} from "../shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { consumeFailureResponse, consumeNote } from "../lib/noteConsumption";
+import { enqueueRevealNotifications } from "../lib/notificationOutbox";
+import { liveNoteWhere } from "../lib/noteStatus";
+import { parseKeyEnvelope } from "../lib/publicKeys";
+import { RATE_LIMITS, rateLimit } from "../lib/rateLimit";
+
+const inboxRouter = new Hono<AppType>();
+
+const MAX_INBOX_NOTES = 100;
+
+// The inbox belongs to the signed-in user
+inboxRouter.use("*", async (c, next) => {
+  if (!c.get("user")) {
+    console.log(`❌ [Inbox] Unauthorized ${c.req.method} ${c.req.path} - no user session`);
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  return next();
+});
+
+// ============================================
+// GET /api/inbox - Readable notes sent to your handle
+// ============================================
+// Newest first, metadata only: content is only handed out by the consume endpoint.
+// Multi-view notes stay listed until their last view is used
+inboxRouter.get("/", async (c) => {
+  const user = c.get("user")!;
+  console.log(`📥 [Inbox] Listing inbox for user: ${user.id}`);
+
+  try {
+    const notes = await db.note.findMany({
+      where: { recipientUserId: user.id, ...liveNoteWhere() },
+      select: {
+        id: true,
+        createdAt: true,
+        expiresAt: true,
+        remainingViews: true,
+        passphraseHash: true,
+        keyEnvelope: true,
+        user: { select: { Profile: { select: { handle: true } } } },
+        _count: { select: { attachments: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: MAX_INBOX_NOTES,
+    });
+
+    return c.json({
+      notes: notes.map((note) => ({
+        id: note.id,
+        from: note.user?.Profile?.handle ?? null,
+        createdAt: note.createdAt.toISOString(),
+        expiresAt: note.expiresAt.toISOString(),
+        remainingViews: note.remainingViews,
+        passphraseProtected: !!note.passphraseHash,
+        attachmentCount: note._count.attachments,
+        keyEnvelope: parseKeyEnvelope(note.keyEnvelope),
+      })),
+    } satisfies InboxResponse);
+  } catch (error) {
+    console.error("❌ [Inbox] Failed to list inbox:", error);
+    return c.json({ error: "Failed to list inbox" }, 500);
+  }
+});
+
+// ============================================
+// POST /api/inbox/:id/consume - Read a note from your inbox
+// ============================================
+// Same burn-after-reading rules as GET /api/notes/:id: one view per call, content
+// destroyed with the last one. Notes addressed to someone else are "not found"
+inboxRouter.post(
+  "/:id/consume",
+  rateLimit(RATE_LIMITS.readNote),
+  zValidator("json", revealNoteRequestSchema),
+  async (c) => {
+    const user = c.get("user")!;
+    const id = c.req.param("id");
+    const { keyProof, passphraseVerifier } = c.req.valid("json");
+    console.log(`📨 [Inbox] User ${user.id} consuming note: ${id}`);
+
+    try {
+      const result = await consumeNote(id, { source: "inbox", keyProof, passphraseVerifier, recipientUserId: user.id });
+
+      if (result.status !== "consumed") {
+        console.log(`🚫 [Inbox] Note not handed out (${result.status}): ${id}`);
+        const failure = consumeFailureResponse(result);
+        return c.json(failure.body, failure.status);
+      }
+
+      const { content, envelopeVersion, remainingViews, attachments } = result;
+      await enqueueRevealNotifications(id, "inbox", remainingViews);
+      console.log(`👁️ [Inbox] Note consumed, ${remainingViews} views left: ${id}`);
+
+      return c.json({
+        content,
+        envelopeVersion,
+        destroyed: remainingViews <= 0,
+        remainingViews,
+        attachments,
+      } satisfies GetNoteResponse);
+    } catch (error) {
+      console.error("❌ [Inbox] Failed to consume note:", error);
+      return c.json({ error: "Failed to read note", code: "NOT_FOUND" } satisfies NoteErrorResponse, 500);
+    }
+  }
+);
+
+export { inboxRouter };
@@ -0,0 +1,207 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  claimDevicesRequestSchema,
+  listMyNotesQuerySchema,
+  publishPublicKeyRequestSchema,
+  type ClaimDevicesResponse,
+  type ListMyNotesResponse,
+  type ListPublicKeysResponse,
+  type PublishPublicKeyResponse,
+  type RevokeMyNotesResponse,
+} from "../shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { claimDevices } from "../lib/accounts";
+import { DESTROYED_CONTENT } from "../lib/noteConsumption";
+import { getNoteStatus, liveNoteWhere, noteStatusWhere } from "../lib/noteStatus";
+import { decodePublicKey, publishPublicKey, toPublicKey } from "../lib/publicKeys";
+
+const meRouter = new Hono<AppType>();
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Every /api/me route acts on the signed-in user's own data
+meRouter.use("*", async (c, next) => {
+  if (!c.get("user")) {
+    console.log(`❌ [Me] Unauthorized ${c.req.method} ${c.req.path} - no user session`);
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  return next();
+});
+
+// Page cursors point at the last note of the previous page (createdAt, then id as a tiebreak)
+const encodeCursor = (note: { createdAt: Date; id: string }) =>
+  Buffer.from(`${note.createdAt.getTime()}:${note.id}`).toString("base64url");
+
+const decodeCursor = (cursor: string): { createdAt: Date; id: string } | null => {
+  const [time, id] = Buffer.from(cursor, "base64url").toString("utf8").split(":");
+  const createdAt = new Date(Number(time));
+  return id && !Number.isNaN(createdAt.getTime()) ? { createdAt, id } : null;
+};
+
+// ============================================
+// POST /api/me/devices/claim - Link anonymous devices to the signed-in account
+// ============================================
+// Merges the devices' note usage and plan into the account, so quota and premium
+// follow the user to every claimed device. Each device must come with its secret,
+// devices without a valid one, or that another account already claimed, are left alone
+meRouter.post("/devices/claim", zValidator("json", claimDevicesRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const { devices } = c.req.valid("json");
+  console.log(`🔗 [Me] User ${user.id} claiming ${devices.length} device(s)`);
+
+  try {
+    const unique = Array.from(new Map(devices.map((device) => [device.deviceId, device])).values());
+    const result = await claimDevices(user.id, unique);
+    if (result.unverified.length > 0) {
+      console.log(`🔐 [Me] Missing or wrong device secret: ${result.unverified.join(", ")}`);
+    }
+    if (result.conflicts.length > 0) {
+      console.log(`⚠️ [Me] Devices already claimed by another account: ${result.conflicts.join(", ")}`);
+    }
+
+    console.log(`✅ [Me] User ${user.id} claimed ${result.claimed.length} device(s), plan ${result.tier}`);
+    return c.json({ success: true, ...result } satisfies ClaimDevicesResponse);
+  } catch (error) {
+    console.error("❌ [Me] Failed to claim devices:", error);
+    return c.json({ error: "Failed to claim devices" }, 500);
+  }
+});
+
+// ============================================
+// GET /api/me/notes - Notes sent by the signed-in user
+// ============================================
+// Newest first, paginated with the nextCursor of the previous page and optionally
+// filtered by status. Only metadata is returned, never content or attachments
+meRouter.get("/notes", zValidator("query", listMyNotesQuerySchema), async (c) => {
+  const user = c.get("user")!;
+  const { status, cursor, limit = DEFAULT_PAGE_SIZE } = c.req.valid("query");
+  console.log(`📋 [Me] Listing ${status ?? "all"} notes for user: ${user.id}`);
+
+  const after = cursor ? decodeCursor(cursor) : null;
+  if (cursor && !after) {
+    return c.json({ error: "Invalid cursor" }, 400);
+  }
+
+  try {
+    const now = new Date();
+    const notes = await db.note.findMany({
+      where: {
+        userId: user.id,
+        ...(status && noteStatusWhere(status, now)),
+        ...(after && {
+          OR: [{ createdAt: { lt: after.createdAt } }, { createdAt: after.createdAt, id: { lt: after.id } }],
+        }),
+      },
+      select: {
+        id: true,
+        viewed: true,
+        maxViews: true,
+        remainingViews: true,
+        createdAt: true,
+        expiresAt: true,
+        revealedAt: true,
+        revokedAt: true,
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1, // One extra to know whether there is another page
+    });
+
+    const page = notes.slice(0, limit);
+    return c.json({
+      notes: page.map((note) => ({
+        id: note.id,
+        status: getNoteStatus(note, now),
+        createdAt: note.createdAt.toISOString(),
+        expiresAt: note.expiresAt.toISOString(),
+        revealedAt: note.revealedAt?.toISOString() ?? null,
+        revokedAt: note.revokedAt?.toISOString() ?? null,
+        maxViews: note.maxViews,
+        remainingViews: note.remainingViews,
+      })),
+      nextCursor: notes.length > limit ? encodeCursor(page[page.length - 1]!) : null,
+    } satisfies ListMyNotesResponse);
+  } catch (error) {
+    console.error("❌ [Me] Failed to list notes:", error);
+    return c.json({ error: "Failed to list notes" }, 500);
+  }
+});
+
+// ============================================
+// POST /api/me/notes/revoke - Revoke every readable note at once
+// ============================================
+// Incident response: burns all of the user's notes that can still be read, and their
+// attachments. That includes multi-view notes already revealed but with views left
+meRouter.post("/notes/revoke", async (c) => {
+  const user = c.get("user")!;
+  console.log(`🚨 [Me] Revoking all readable notes for user: ${user.id}`);
+
+  try {
+    const revokedAt = new Date();
+    const revoked = await db.$transaction(async (tx) => {
+      // Conditional on the live filter, so a note burned meanwhile isn't counted
+      const { count } = await tx.note.updateMany({
+        where: { userId: user.id, ...liveNoteWhere(revokedAt) },
+        data: { viewed: true, remainingViews: 0, content: DESTROYED_CONTENT, keyId: null, wrappedDataKey: null, revokedAt },
+      });
+      await tx.noteAttachment.deleteMany({ where: { note: { userId: user.id, revokedAt } } });
+      return count;
+    });
+
+    console.log(`💥 [Me] Revoked ${revoked} readable notes for user: ${user.id}`);
+    return c.json({ success: true, revoked, revokedAt: revokedAt.toISOString() } satisfies RevokeMyNotesResponse);
+  } catch (error) {
+    console.error("❌ [Me] Failed to revoke notes:", error);
+    return c.json({ error: "Failed to revoke notes" }, 500);
+  }
+});
+
+// ============================================
+// POST /api/me/keys - Publish (or rotate) your public key
+// ============================================
+// The new key becomes the one senders encrypt to, the previous key is retired.
+// The private key stays on the user's devices
+meRouter.post("/keys", zValidator("json", publishPublicKeyRequestSchema), async (c) => {
+  const user = c.get("user")!;
+  const { algorithm, publicKey } = c.req.valid("json");
+  console.log(`🔑 [Me] User ${user.id} publishing a ${algorithm} public key`);
+
+  const raw = decodePublicKey(algorithm, publicKey);
+  if (!raw) {
+    console.log(`❌ [Me] Invalid ${algorithm} public key from user: ${user.id}`);
+    return c.json({ error: `Invalid ${algorithm} public key` }, 400);
+  }
+
+  try {
+    const result = await publishPublicKey(user.id, algorithm, raw);
+    if (result.status === "taken") {
+      console.log(`🚫 [Me] Public key already published elsewhere, rejected for user: ${user.id}`);
+      return c.json({ error: "This key was already published" }, 409);
+    }
+
+    console.log(`✅ [Me] Public key ${result.key.fingerprint} is now current for user: ${user.id}`);
+    return c.json({ success: true, key: toPublicKey(result.key) } satisfies PublishPublicKeyResponse);
+  } catch (error) {
+    console.error("❌ [Me] Failed to publish public key:", error);
+    return c.json({ error: "Failed to publish public key" }, 500);
+  }
+});
+
+// ============================================
+// GET /api/me/keys - Your published keys
+// ============================================
+// Newest first, retired keys included so the app can match old notes to the right private key
+meRouter.get("/keys", async (c) => {
+  const user = c.get("user")!;
+
+  try {
+    const keys = await db.userPublicKey.findMany({ where: { userId: user.id }, orderBy: { createdAt: "desc" } });
+    return c.json({ keys: keys.map(toPublicKey) } satisfies ListPublicKeysResponse);
+  } catch (error) {
+    console.error("❌ [Me] Failed to list public keys:", error);
+    return c.json({ error: "Failed to list public keys" }, 500);
+  }
+});
+
+export { meRouter };
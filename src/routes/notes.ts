@@ -1,81 +1,162 @@
 import { Hono } from "hono";
+import { randomBytes } from "node:crypto";
 import { zValidator } from "@hono/zod-validator";
 import {
   createNoteRequestSchema,
+  IDEMPOTENCY_KEY_HEADER,
+  KEY_PROOF_HEADER,
+  MANAGE_TOKEN_HEADER,
+  PASSPHRASE_VERIFIER_HEADER,
   upgradeRequestSchema,
   type CreateNoteResponse,
   type GetNoteResponse,
+  type NoteEnvelopeResponse,
   type NoteErrorResponse,
+  type NoteRevealSource,
+  type NoteStatusResponse,
   type NoteUsageResponse,
+  type RevokeNoteResponse,
   type UpgradeResponse,
 } from "../shared/contracts";
 import { type AppType } from "../types";
 import { db } from "../db";
-import { hasActivePremium, isRevenueCatConfigured } from "../lib/revenuecat";
+import { getBestPremiumEntitlement, isRevenueCatConfigured } from "../lib/revenuecat";
+import { consumeFailureResponse, consumeNote, DESTROYED_CONTENT } from "../lib/noteConsumption";
+import { decodeAttachments, destroyNoteAttachments } from "../lib/noteAttachments";
+import { findPlanViolation, PLANS, toPlanTier } from "../lib/plans";
+import { consumeQuota, getQuotaUsage, LIFETIME_PERIOD } from "../lib/quota";
+import { findIdempotentResponse, hashRequest, storeIdempotentResponse } from "../lib/idempotency";
+import { resolveUsageOwner } from "../lib/accounts";
+import { getNoteStatus } from "../lib/noteStatus";
+import { findKeyEnvelopeProblem, parseKeyEnvelope } from "../lib/publicKeys";
+import { findContentEnvelopeProblem, LEGACY_CONTENT_VERSION } from "../lib/noteEnvelope";
+import { createDataKey, sealBytes, sealText } from "../lib/noteAtRest";
+import { hashPassphraseVerifier, MAX_PASSPHRASE_ATTEMPTS } from "../lib/notePassphrase";
+import { createManageToken, verifyManageToken } from "../lib/noteManageToken";
+import { isAllowedWebhookUrl } from "../lib/notificationChannels";
+import { enqueueRevealNotifications } from "../lib/notificationOutbox";
+import { deviceIdFromJsonBody, RATE_LIMITS, rateLimit } from "../lib/rateLimit";
 
 const notesRouter = new Hono<AppType>();
 
-const FREE_NOTE_LIMIT = 5;
+const DEFAULT_NOTE_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days, the old fixed expiry
+const PROVISIONAL_PREMIUM_GRACE_MS = 60 * 60 * 1000; // 1 hour of premium while RevenueCat is unreachable
+const PROVISIONAL_PREMIUM_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // At most one grace period per 30 days
 
-// Helper to get TOTAL lifetime usage for a device (no monthly reset)
+// Request budgets, counted per IP and per deviceId
+const createNoteRateLimit = rateLimit({ ...RATE_LIMITS.createNote, deviceId: deviceIdFromJsonBody });
+const usageRateLimit = rateLimit({ ...RATE_LIMITS.usage, deviceId: (c) => c.req.param("deviceId") });
+
+// Helper to get the lifetime usage record a device counts against (its own, or its account's
+// once claimed), which holds the plan state. Windowed counts come from getQuotaUsage
 const getOrCreateUsage = async (deviceId: string, verifySubscription = false) => {
-  // Find the most recent usage record for this device (any month/year)
-  let usage = await db.noteUsage.findFirst({
-    where: { deviceId },
-    orderBy: { id: 'desc' },
-  });
+  const owner = await resolveUsageOwner(deviceId);
 
-  // If no record exists, create one with month=0, year=0 to indicate lifetime tracking
-  if (!usage) {
-    usage = await db.noteUsage.create({
-      data: { deviceId, month: 0, year: 0, count: 0, isPremium: false },
-    });
-  }
+  // The lifetime record has month=0, year=0, day=0
+  let usage = await db.noteUsage.upsert({
+    where: { deviceId_year_month_day: { deviceId: owner.usageKey, ...LIFETIME_PERIOD } },
+    create: { deviceId: owner.usageKey, ...LIFETIME_PERIOD, count: 0, isPremium: false },
+    update: {},
+  });
 
   // Only verify with RevenueCat if explicitly requested AND user is NOT marked as premium
   // This prevents downgrading users who just purchased but RevenueCat hasn't synced yet
-  // Users marked as premium in our DB are trusted until they explicitly need re-verification
+  // Users marked as premium in our DB are trusted until their entitlement expiry passes
+  // (kept up to date by the RevenueCat webhook, see routes/webhooks.ts)
   if (verifySubscription && !usage.isPremium && isRevenueCatConfigured()) {
-    const hasPremium = await hasActivePremium(deviceId);
+    const entitlement = await getBestPremiumEntitlement(owner.deviceIds);
 
-    if (hasPremium) {
+    if (entitlement.status === "active") {
       // User has premium in RevenueCat but not in our DB - upgrade them
       console.log(`⬆️ [Notes] Found active premium in RevenueCat for device ${deviceId}, upgrading`);
       usage = await db.noteUsage.update({
         where: { id: usage.id },
-        data: { isPremium: true },
+        data: { isPremium: true, tier: entitlement.tier, premiumExpiresAt: entitlement.expiresAt },
       });
     }
   }
 
-  return usage;
+  // Provisional upgrades (granted while RevenueCat was down) are re-verified on every check:
+  // confirmed once RevenueCat sees the purchase, dropped if it doesn't or the grace period runs out.
+  // premiumProvisionalGrantedAt stays set, so /upgrade can't hand out another grace right away
+  if (verifySubscription && usage.premiumProvisionalUntil) {
+    const entitlement = await getBestPremiumEntitlement(owner.deviceIds);
+
+    if (entitlement.status === "active") {
+      console.log(`✅ [Notes] Provisional premium confirmed by RevenueCat for device ${deviceId}`);
+      usage = await db.noteUsage.update({
+        where: { id: usage.id },
+        data: {
+          isPremium: true,
+          tier: entitlement.tier,
+          premiumProvisionalUntil: null,
+          premiumExpiresAt: entitlement.expiresAt,
+        },
+      });
+    } else if (entitlement.status === "inactive" || usage.premiumProvisionalUntil < new Date()) {
+      console.log(`⬇️ [Notes] Provisional premium not confirmed for device ${deviceId} (${entitlement.status}), downgrading`);
+      usage = await db.noteUsage.update({
+        where: { id: usage.id },
+        data: { isPremium: false, tier: "free", premiumProvisionalUntil: null },
+      });
+    }
+  } else if (verifySubscription && usage.isPremium && usage.premiumExpiresAt && usage.premiumExpiresAt < new Date()) {
+    // Entitlement expiry passed without a webhook: ask RevenueCat whether it renewed,
+    // anything but an active entitlement downgrades the device
+    const entitlement = await getBestPremiumEntitlement(owner.deviceIds);
+
+    if (entitlement.status === "active") {
+      console.log(`🔄 [Notes] Premium renewed in RevenueCat for device ${deviceId}`);
+      usage = await db.noteUsage.update({
+        where: { id: usage.id },
+        data: { tier: entitlement.tier, premiumExpiresAt: entitlement.expiresAt },
+      });
+    } else {
+      console.log(`⬇️ [Notes] Premium expired for device ${deviceId} (${entitlement.status}), downgrading`);
+      usage = await db.noteUsage.update({
+        where: { id: usage.id },
+        data: { isPremium: false, tier: "free" },
+      });
+    }
+  }
+
+  return { ...usage, owner };
 };
 
 // ============================================
 // GET /api/notes/usage/:deviceId - Get note usage
 // ============================================
-notesRouter.get("/usage/:deviceId", async (c) => {
+notesRouter.get("/usage/:deviceId", usageRateLimit, async (c) => {
   const deviceId = c.req.param("deviceId");
   console.log(`📊 [Notes] Checking usage for device: ${deviceId}`);
 
   try {
     // Verify subscription status with RevenueCat
     const usage = await getOrCreateUsage(deviceId, true);
-    const canCreate = usage.isPremium || usage.count < FREE_NOTE_LIMIT;
+    const tier = toPlanTier(usage.tier);
+    const limits = PLANS[tier];
+    const quota = await getQuotaUsage(usage.deviceId, limits.quotaWindow, usage.count);
+    const canCreate = limits.noteQuota === null || quota.count < limits.noteQuota;
 
     return c.json({
-      count: usage.count,
-      limit: FREE_NOTE_LIMIT,
+      count: quota.count,
+      limit: limits.noteQuota ?? PLANS.free.noteQuota!,
       isPremium: usage.isPremium,
       canCreate,
+      resetsAt: limits.noteQuota === null ? null : (quota.resetsAt?.toISOString() ?? null),
+      tier,
+      limits,
     } satisfies NoteUsageResponse);
   } catch (error) {
     console.error("❌ [Notes] Failed to get usage:", error);
     return c.json({
       count: 0,
-      limit: FREE_NOTE_LIMIT,
+      limit: PLANS.free.noteQuota!,
       isPremium: false,
       canCreate: true,
+      resetsAt: null,
+      tier: "free",
+      limits: PLANS.free,
     } satisfies NoteUsageResponse);
   }
 });
@@ -83,21 +164,86 @@ notesRouter.get("/usage/:deviceId", async (c) => {
 // ============================================
 // POST /api/notes/upgrade - Mark device as premium
 // ============================================
+// The purchase is confirmed with RevenueCat first. If RevenueCat can't be reached the
+// upgrade is provisional for a short grace period and re-verified on later usage checks.
+// The grace is given once per window: a grace that ran out unconfirmed isn't granted again
 notesRouter.post("/upgrade", zValidator("json", upgradeRequestSchema), async (c) => {
   const { deviceId } = c.req.valid("json");
-  console.log(`⭐ [Notes] Upgrading device to premium: ${deviceId}`);
+  console.log(`⭐ [Notes] Upgrade requested for device: ${deviceId}`);
+
+  if (!isRevenueCatConfigured()) {
+    console.log("❌ [Notes] Upgrade rejected, RevenueCat is not configured");
+    return c.json({ success: false, isPremium: false } satisfies UpgradeResponse, 503);
+  }
 
   try {
     // Get or create the lifetime usage record
     const usage = await getOrCreateUsage(deviceId);
+    // A purchase made on any device the account has claimed counts
+    const entitlement = await getBestPremiumEntitlement(usage.owner.deviceIds);
+
+    if (entitlement.status === "inactive") {
+      console.log(`🚫 [Notes] No active premium entitlement for device: ${deviceId}`);
+      return c.json({ success: false, isPremium: usage.isPremium } satisfies UpgradeResponse, 402);
+    }
+
+    if (entitlement.status === "unavailable") {
+      // Keep an existing grace period instead of extending it on every retry
+      if (usage.premiumProvisionalUntil) {
+        return c.json({
+          success: true,
+          isPremium: true,
+          provisionalUntil: usage.premiumProvisionalUntil.toISOString(),
+        } satisfies UpgradeResponse);
+      }
+      if (usage.isPremium) {
+        return c.json({ success: true, isPremium: true } satisfies UpgradeResponse);
+      }
 
-    // Update to premium
+      // Conditional update, so concurrent retries can't each start a grace period
+      const now = new Date();
+      const provisionalUntil = new Date(now.getTime() + PROVISIONAL_PREMIUM_GRACE_MS);
+      const granted = await db.noteUsage.updateMany({
+        where: {
+          id: usage.id,
+          isPremium: false,
+          OR: [
+            { premiumProvisionalGrantedAt: null },
+            { premiumProvisionalGrantedAt: { lt: new Date(now.getTime() - PROVISIONAL_PREMIUM_WINDOW_MS) } },
+          ],
+        },
+        data: {
+          isPremium: true,
+          tier: "plus",
+          premiumProvisionalUntil: provisionalUntil,
+          premiumProvisionalGrantedAt: now,
+        },
+      });
+      if (granted.count === 0) {
+        console.log(`🚫 [Notes] RevenueCat unreachable and grace period already used: ${deviceId}`);
+        return c.json({ success: false, isPremium: false } satisfies UpgradeResponse, 503);
+      }
+
+      console.log(`⏳ [Notes] RevenueCat unreachable, provisional premium until ${provisionalUntil.toISOString()}: ${deviceId}`);
+      return c.json({
+        success: true,
+        isPremium: true,
+        provisionalUntil: provisionalUntil.toISOString(),
+      } satisfies UpgradeResponse);
+    }
+
+    // Verified purchase
     await db.noteUsage.update({
       where: { id: usage.id },
-      data: { isPremium: true },
+      data: {
+        isPremium: true,
+        tier: entitlement.tier,
+        premiumProvisionalUntil: null,
+        premiumExpiresAt: entitlement.expiresAt,
+      },
     });
 
-    console.log(`✅ [Notes] Device upgraded to premium: ${deviceId}`);
+    console.log(`✅ [Notes] Device upgraded to ${entitlement.tier}: ${deviceId}`);
     return c.json({ success: true, isPremium: true } satisfies UpgradeResponse);
   } catch (error) {
     console.error("❌ [Notes] Failed to upgrade:", error);
@@ -108,98 +254,340 @@ notesRouter.post("/upgrade", zValidator("json", upgradeRequestSchema), async (c)
 // ============================================
 // POST /api/notes - Create a new self-destructing note
 // ============================================
-notesRouter.post("/", zValidator("json", createNoteRequestSchema), async (c) => {
-  const { content, deviceId } = c.req.valid("json");
+// With an Idempotency-Key header, retries of the same request (same key and deviceId)
+// get the original response back without creating another note
+notesRouter.post("/", createNoteRateLimit, zValidator("json", createNoteRequestSchema), async (c) => {
+  const {
+    content,
+    envelopeVersion,
+    deviceId,
+    expiresInSeconds,
+    maxViews = 1,
+    passphraseVerifier,
+    keyCommitment,
+    notify,
+    attachments,
+    recipientHandle,
+    keyEnvelope,
+  } = c.req.valid("json");
+  const user = c.get("user");
+  const idempotencyKey = c.req.header(IDEMPOTENCY_KEY_HEADER);
+  const requestHash = hashRequest(c.req.valid("json"));
   console.log(`📝 [Notes] Creating new self-destructing note for device: ${deviceId}`);
 
+  // Answer a retried request from the stored response (null if this is a new request)
+  const replayIdempotentRequest = async () => {
+    if (!idempotencyKey) {
+      return null;
+    }
+    const lookup = await findIdempotentResponse<CreateNoteResponse>(deviceId, idempotencyKey, requestHash);
+    if (lookup.status === "conflict") {
+      console.log(`❌ [Notes] Idempotency-Key reused with a different request for device: ${deviceId}`);
+      return c.json(
+        {
+          error: "This Idempotency-Key was already used with a different request",
+          code: "IDEMPOTENCY_CONFLICT",
+        } satisfies NoteErrorResponse,
+        409
+      );
+    }
+    if (lookup.status === "replay") {
+      console.log(`🔁 [Notes] Replaying note creation ${lookup.response.id} for device: ${deviceId}`);
+      c.header("Idempotent-Replayed", "true");
+      return c.json(lookup.response satisfies CreateNoteResponse);
+    }
+    return null;
+  };
+
+  if (notify?.webhookUrl && !(await isAllowedWebhookUrl(notify.webhookUrl))) {
+    console.log(`❌ [Notes] Rejected webhook URL: ${notify.webhookUrl}`);
+    return c.json(
+      { error: "Webhook URL must use HTTPS and a public host", code: "INVALID_WEBHOOK_URL" } satisfies NoteErrorResponse,
+      400
+    );
+  }
+
+  // Envelope notes must be well formed, the server can't decrypt them to find out later
+  const envelopeProblem = envelopeVersion ? findContentEnvelopeProblem(content, attachments ?? []) : null;
+  if (envelopeProblem) {
+    console.log(`❌ [Notes] Malformed envelope from device ${deviceId}: ${envelopeProblem}`);
+    return c.json({ error: envelopeProblem, code: "INVALID_ENVELOPE" } satisfies NoteErrorResponse, 400);
+  }
+
+  // Only signed-in users can deliver to an inbox, so recipients know who wrote
+  if (recipientHandle && !user) {
+    console.log(`❌ [Notes] Anonymous note to @${recipientHandle} rejected`);
+    return c.json(
+      { error: "Sign in to send notes to a handle", code: "SIGN_IN_REQUIRED" } satisfies NoteErrorResponse,
+      401
+    );
+  }
+
   try {
+    const replay = await replayIdempotentRequest();
+    if (replay) {
+      return replay;
+    }
+
+    const recipient = recipientHandle
+      ? await db.profile.findUnique({ where: { handle: recipientHandle }, select: { userId: true } })
+      : null;
+    if (recipientHandle && !recipient) {
+      console.log(`❌ [Notes] Unknown recipient handle: @${recipientHandle}`);
+      return c.json(
+        { error: `No user with the handle @${recipientHandle}`, code: "RECIPIENT_NOT_FOUND" } satisfies NoteErrorResponse,
+        404
+      );
+    }
+
+    // The envelope must name a current key of the recipient (any published key for link notes)
+    const keyEnvelopeProblem = keyEnvelope
+      ? await findKeyEnvelopeProblem(keyEnvelope, recipient?.userId ?? null)
+      : null;
+    if (keyEnvelopeProblem) {
+      console.log(`❌ [Notes] Rejected key envelope for device ${deviceId}: ${keyEnvelopeProblem}`);
+      return c.json({ error: keyEnvelopeProblem, code: "INVALID_KEY_ENVELOPE" } satisfies NoteErrorResponse, 400);
+    }
+
     // Check usage limit (verify subscription status with RevenueCat)
     const usage = await getOrCreateUsage(deviceId, true);
-
-    if (!usage.isPremium && usage.count >= FREE_NOTE_LIMIT) {
-      console.log(`🚫 [Notes] Free limit reached for device: ${deviceId}`);
+    const tier = toPlanTier(usage.tier);
+    const limits = PLANS[tier];
+    const ttlSeconds = expiresInSeconds ?? DEFAULT_NOTE_TTL_SECONDS;
+    const quota = await getQuotaUsage(usage.deviceId, limits.quotaWindow, usage.count);
+    const limitReached = () => {
+      console.log(`🚫 [Notes] ${tier} note limit reached for device: ${deviceId}`);
       return c.json(
-        { error: "Free note limit reached", code: "LIMIT_REACHED" } satisfies NoteErrorResponse,
+        { error: "Note limit reached for your plan", code: "LIMIT_REACHED" } satisfies NoteErrorResponse,
         403
       );
+    };
+
+    // Early exit only, the quota is enforced when the note is created below
+    if (limits.noteQuota !== null && quota.count >= limits.noteQuota) {
+      return limitReached();
     }
 
-    // Create the note
-    const note = await db.note.create({
-      data: {
-        content,
-        deviceId,
-      },
+    // Size, expiry and feature limits of the sender's plan
+    const violation = findPlanViolation(limits, {
+      contentLength: content.length,
+      ttlSeconds,
+      attachmentCount: attachments?.length ?? 0,
+      passphrase: !!passphraseVerifier,
+      emailNotification: !!notify?.email,
+      webhookNotification: !!notify?.webhookUrl,
     });
+    if (violation) {
+      console.log(`🚫 [Notes] Plan limit (${tier}) for device ${deviceId}: ${violation}`);
+      return c.json({ error: violation, code: "PLAN_LIMIT_EXCEEDED" } satisfies NoteErrorResponse, 403);
+    }
 
-    // Increment usage count on the lifetime record
-    await db.noteUsage.update({
-      where: { id: usage.id },
-      data: { count: { increment: 1 } },
-    });
+    const decodedAttachments = decodeAttachments(attachments ?? [], limits.maxAttachmentBytes);
+    if (!decodedAttachments) {
+      console.log(`❌ [Notes] Attachment too large for device: ${deviceId}`);
+      return c.json(
+        {
+          error: `Attachments can be at most ${limits.maxAttachmentBytes / 1024 / 1024}MB each on your plan`,
+          code: "ATTACHMENT_TOO_LARGE",
+        } satisfies NoteErrorResponse,
+        400
+      );
+    }
 
-    console.log(`✅ [Notes] Note created with ID: ${note.id}`);
-    return c.json({ id: note.id, success: true } satisfies CreateNoteResponse);
-  } catch (error) {
+    // Create the note with its sender-chosen expiry (and optional passphrase)
+    const manageToken = createManageToken();
+    const webhookSecret = notify?.webhookUrl ? randomBytes(32).toString("hex") : undefined;
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+    const passphraseHash = passphraseVerifier ? await hashPassphraseVerifier(passphraseVerifier) : undefined;
+
+    // Second layer at rest: seal the payload under a fresh data key (null when not configured)
+    const dataKey = createDataKey();
+    const storedAttachments = decodedAttachments.map((attachment) => ({
+      ...attachment,
+      data: sealBytes(dataKey?.dataKey ?? null, "attachment-data", attachment.data),
+      meta: sealText(dataKey?.dataKey ?? null, "attachment-meta", attachment.meta),
+    }));
+
+    // Quota, note and idempotent response in one transaction: parallel creates can't go
+    // past the limit, and a failed insert doesn't use up quota
+    const response = await db.$transaction(async (tx) => {
+      // Claimed devices share their account's quota
+      if (!(await consumeQuota(tx, usage.deviceId, limits))) {
+        return null;
+      }
+      const note = await tx.note.create({
+        data: {
+          content: sealText(dataKey?.dataKey ?? null, "content", content),
+          keyId: dataKey?.keyId,
+          wrappedDataKey: dataKey?.wrappedDataKey,
+          envelopeVersion: envelopeVersion ?? LEGACY_CONTENT_VERSION,
+          deviceId,
+          userId: user?.id ?? usage.owner.userId,
+          recipientUserId: recipient?.userId,
+          keyEnvelope: keyEnvelope && JSON.stringify(keyEnvelope),
+          expiresAt,
+          maxViews,
+          remainingViews: maxViews,
+          keyCommitment,
+          manageTokenHash: manageToken.hash,
+          notifyPush: notify?.push ?? false,
+          notifyEmail: notify?.email && user ? user.email : null,
+          notifyWebhookUrl: notify?.webhookUrl,
+          notifyWebhookSecret: webhookSecret,
+          attachments: { create: storedAttachments },
+          ...(passphraseHash && { passphraseHash, passphraseAttemptsLeft: MAX_PASSPHRASE_ATTEMPTS }),
+        },
+      });
+      const response: CreateNoteResponse = {
+        id: note.id,
+        success: true,
+        expiresAt: note.expiresAt.toISOString(),
+        manageToken: manageToken.token,
+        webhookSecret,
+      };
+      if (idempotencyKey) {
+        await storeIdempotentResponse(tx, deviceId, idempotencyKey, requestHash, response);
+      }
+      return response;
+    }, { timeout: 15 * 1000 }); // Attachments can take a while to insert
+
+    if (!response) {
+      return limitReached();
+    }
+
+    console.log(`✅ [Notes] Note created with ID: ${response.id} (expires ${response.expiresAt})`);
+    return c.json(response satisfies CreateNoteResponse);
+  } catch (error: any) {
+    // A concurrent request with the same Idempotency-Key committed first: answer like a retry
+    if (error?.code === "P2002" && idempotencyKey) {
+      const replay = await replayIdempotentRequest().catch(() => null);
+      if (replay) {
+        return replay;
+      }
+    }
     console.error("❌ [Notes] Failed to create note:", error);
     return c.json({ error: "Failed to create note", code: "NOT_FOUND" } satisfies NoteErrorResponse, 500);
   }
 });
 
 // ============================================
-// GET /api/notes/:id - Get and destroy a note
+// GET /api/notes/:id/status - Delivery status for the sender
 // ============================================
-notesRouter.get("/:id", async (c) => {
+// Authenticated by the manage token returned at creation, never touches the content
+notesRouter.get("/:id/status", async (c) => {
   const id = c.req.param("id");
-  console.log(`📝 [Notes] Attempting to retrieve note: ${id}`);
+  const manageToken = c.req.header(MANAGE_TOKEN_HEADER);
+  console.log(`📬 [Notes] Status requested for note: ${id}`);
 
   try {
-    // Find the note
     const note = await db.note.findUnique({
       where: { id },
+      select: {
+        id: true,
+        viewed: true,
+        maxViews: true,
+        remainingViews: true,
+        manageTokenHash: true,
+        createdAt: true,
+        expiresAt: true,
+        revealedAt: true,
+        revealSource: true,
+        revokedAt: true,
+      },
     });
 
-    // Note doesn't exist
     if (!note) {
-      console.log(`❌ [Notes] Note not found: ${id}`);
-      return c.json(
-        { error: "Note not found", code: "NOT_FOUND" } satisfies NoteErrorResponse,
-        404
-      );
+      console.log(`❌ [Notes] Note not found for status: ${id}`);
+      return c.json({ error: "Note not found", code: "NOT_FOUND" } satisfies NoteErrorResponse, 404);
     }
 
-    // Note has already been viewed
-    if (note.viewed) {
-      console.log(`🔒 [Notes] Note already viewed: ${id}`);
+    if (!manageToken || !note.manageTokenHash || !verifyManageToken(manageToken, note.manageTokenHash)) {
+      console.log(`🚫 [Notes] Invalid manage token for note: ${id}`);
       return c.json(
-        { error: "This note has already been viewed and destroyed", code: "ALREADY_VIEWED" } satisfies NoteErrorResponse,
-        410
+        { error: "Invalid manage token", code: "INVALID_MANAGE_TOKEN" } satisfies NoteErrorResponse,
+        403
       );
     }
 
-    // Mark as viewed (self-destruct)
-    await db.note.update({
-      where: { id },
-      data: { viewed: true },
+    return c.json({
+      id: note.id,
+      status: getNoteStatus(note),
+      createdAt: note.createdAt.toISOString(),
+      expiresAt: note.expiresAt.toISOString(),
+      revealedAt: note.revealedAt?.toISOString() ?? null,
+      revokedAt: note.revokedAt?.toISOString() ?? null,
+      revealSource: note.revealSource as NoteRevealSource | null,
+      maxViews: note.maxViews,
+      remainingViews: note.remainingViews,
+    } satisfies NoteStatusResponse);
+  } catch (error) {
+    console.error("❌ [Notes] Failed to get note status:", error);
+    return c.json({ error: "Failed to get note status", code: "NOT_FOUND" } satisfies NoteErrorResponse, 500);
+  }
+});
+
+// ============================================
+// GET /api/notes/:id/envelope - Wrapped content key, without using a view
+// ============================================
+// Notes encrypted to a public key need it unwrapped before they can be read:
+// the key proof and passphrase verifier are derived from the content key
+notesRouter.get("/:id/envelope", rateLimit(RATE_LIMITS.readNote), async (c) => {
+  const id = c.req.param("id");
+
+  try {
+    // Inbox notes are only listed to their recipient (GET /api/inbox)
+    const note = await db.note.findFirst({
+      where: { id, recipientUserId: null, viewed: false },
+      select: { keyEnvelope: true },
     });
 
-    console.log(`💥 [Notes] Note viewed and marked for destruction: ${id}`);
-
-    // Delete the note content after a short delay for extra security
-    // (keeping the record to show "already viewed" message)
-    setTimeout(async () => {
-      try {
-        await db.note.update({
-          where: { id },
-          data: { content: "[DESTROYED]" },
-        });
-        console.log(`🗑️ [Notes] Note content destroyed: ${id}`);
-      } catch {
-        // Note might have been deleted already
-      }
-    }, 5000);
+    if (!note) {
+      return c.json({ error: "Note not found", code: "NOT_FOUND" } satisfies NoteErrorResponse, 404);
+    }
 
-    return c.json({ content: note.content, destroyed: true } satisfies GetNoteResponse);
+    return c.json({ keyEnvelope: parseKeyEnvelope(note.keyEnvelope) } satisfies NoteEnvelopeResponse);
+  } catch (error) {
+    console.error("❌ [Notes] Failed to get note envelope:", error);
+    return c.json({ error: "Failed to get note envelope", code: "NOT_FOUND" } satisfies NoteErrorResponse, 500);
+  }
+});
+
+// ============================================
+// GET /api/notes/:id - Get a note, destroying it on its last view
+// ============================================
+notesRouter.get("/:id", rateLimit(RATE_LIMITS.readNote), async (c) => {
+  const id = c.req.param("id");
+  console.log(`📝 [Notes] Attempting to retrieve note: ${id}`);
+
+  try {
+    // Read and use up one view in a single atomic step
+    const result = await consumeNote(id, {
+      source: "api",
+      keyProof: c.req.header(KEY_PROOF_HEADER),
+      passphraseVerifier: c.req.header(PASSPHRASE_VERIFIER_HEADER),
+    });
+
+    if (result.status !== "consumed") {
+      console.log(`🚫 [Notes] Note not handed out (${result.status}): ${id}`);
+      const failure = consumeFailureResponse(result);
+      return c.json(failure.body, failure.status);
+    }
+
+    const { content, envelopeVersion, remainingViews, attachments } = result;
+    await enqueueRevealNotifications(id, "api", remainingViews);
+    if (remainingViews > 0) {
+      console.log(`👁️ [Notes] Note viewed, ${remainingViews} views left: ${id}`);
+    } else {
+      console.log(`💥 [Notes] Note viewed and content destroyed: ${id}`);
+    }
+
+    return c.json({
+      content,
+      envelopeVersion,
+      destroyed: remainingViews <= 0,
+      remainingViews,
+      attachments,
+    } satisfies GetNoteResponse);
   } catch (error) {
     console.error("❌ [Notes] Error retrieving note:", error);
     return c.json(
@@ -209,4 +597,62 @@ notesRouter.get("/:id", async (c) => {
   }
 });
 
+// ============================================
+// DELETE /api/notes/:id - Sender revokes a note before it is read
+// ============================================
+// Authenticated by the manage token returned at creation
+notesRouter.delete("/:id", async (c) => {
+  const id = c.req.param("id");
+  const manageToken = c.req.header(MANAGE_TOKEN_HEADER);
+  console.log(`🗑️ [Notes] Revocation requested for note: ${id}`);
+
+  try {
+    const note = await db.note.findUnique({
+      where: { id },
+      select: { manageTokenHash: true, revokedAt: true },
+    });
+
+    if (!note) {
+      console.log(`❌ [Notes] Note not found for revocation: ${id}`);
+      return c.json({ error: "Note not found", code: "NOT_FOUND" } satisfies NoteErrorResponse, 404);
+    }
+
+    if (!manageToken || !note.manageTokenHash || !verifyManageToken(manageToken, note.manageTokenHash)) {
+      console.log(`🚫 [Notes] Invalid manage token for note: ${id}`);
+      return c.json(
+        { error: "Invalid manage token", code: "INVALID_MANAGE_TOKEN" } satisfies NoteErrorResponse,
+        403
+      );
+    }
+
+    // Revoking twice is harmless
+    if (note.revokedAt) {
+      return c.json({ success: true, revokedAt: note.revokedAt.toISOString() } satisfies RevokeNoteResponse);
+    }
+
+    // Wipe and burn in one conditional update, so it can't race with a reader
+    const revokedAt = new Date();
+    const { count } = await db.note.updateMany({
+      where: { id, viewed: false },
+      data: { viewed: true, remainingViews: 0, content: DESTROYED_CONTENT, keyId: null, wrappedDataKey: null, revokedAt },
+    });
+
+    if (count === 0) {
+      console.log(`🔒 [Notes] Note already viewed, nothing to revoke: ${id}`);
+      return c.json(
+        { error: "This note has already been viewed and destroyed", code: "ALREADY_VIEWED" } satisfies NoteErrorResponse,
+        410
+      );
+    }
+
+    await destroyNoteAttachments(id);
+
+    console.log(`💥 [Notes] Note revoked by sender: ${id}`);
+    return c.json({ success: true, revokedAt: revokedAt.toISOString() } satisfies RevokeNoteResponse);
+  } catch (error) {
+    console.error("❌ [Notes] Failed to revoke note:", error);
+    return c.json({ error: "Failed to revoke note", code: "NOT_FOUND" } satisfies NoteErrorResponse, 500);
+  }
+});
+
 export { notesRouter };
@@ -0,0 +1,78 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  registerPushTokenRequestSchema,
+  type RegisterPushTokenResponse,
+} from "../shared/contracts";
+import { type AppType } from "../types";
+import { db } from "../db";
+import { verifyDeviceSecret } from "../lib/deviceSecrets";
+import { liveNoteWhere } from "../lib/noteStatus";
+
+const notificationsRouter = new Hono<AppType>();
+
+/**
+ * Whether the caller may point the device's read notifications at a new token
+ * deviceIds aren't secret: the device's secret, or the session of the account that
+ * claimed it, is required. Older installs with neither can move their token (Expo
+ * tokens change on reinstall) while none of their notes is waiting to notify on a
+ * read; with such notes they need their secret first (POST /api/devices/secret)
+ */
+const canRegisterPushToken = async (
+  deviceId: string,
+  expoPushToken: string,
+  deviceSecret: string | undefined,
+  userId: string | undefined
+): Promise<boolean> => {
+  const [secret, claim, current] = await Promise.all([
+    db.deviceSecret.findUnique({ where: { deviceId }, select: { deviceId: true } }),
+    db.deviceClaim.findUnique({ where: { deviceId } }),
+    db.pushToken.findUnique({ where: { deviceId } }),
+  ]);
+
+  if (secret) {
+    return !!deviceSecret && (await verifyDeviceSecret(deviceId, deviceSecret));
+  }
+  if (claim) {
+    return claim.userId === userId;
+  }
+  if (!current || current.token === expoPushToken) {
+    return true;
+  }
+
+  const awaitingRead = await db.note.findFirst({
+    where: { deviceId, notifyPush: true, ...liveNoteWhere() },
+    select: { id: true },
+  });
+  return !awaitingRead;
+};
+
+// ============================================
+// POST /api/notifications/push-token - Register a device's Expo push token
+// ============================================
+// Read notifications for notes created with notify.push go to this token
+notificationsRouter.post("/push-token", zValidator("json", registerPushTokenRequestSchema), async (c) => {
+  const { deviceId, expoPushToken, deviceSecret } = c.req.valid("json");
+  console.log(`📲 [Notifications] Registering push token for device: ${deviceId}`);
+
+  try {
+    if (!(await canRegisterPushToken(deviceId, expoPushToken, deviceSecret, c.get("user")?.id))) {
+      console.log(`🔐 [Notifications] No proof of device for push token change: ${deviceId}`);
+      return c.json({ error: "Proof of this device is required to change its push token" }, 403);
+    }
+
+    await db.pushToken.upsert({
+      where: { deviceId },
+      create: { deviceId, token: expoPushToken },
+      update: { token: expoPushToken },
+    });
+
+    console.log(`✅ [Notifications] Push token registered for device: ${deviceId}`);
+    return c.json({ success: true } satisfies RegisterPushTokenResponse);
+  } catch (error) {
+    console.error("❌ [Notifications] Failed to register push token:", error);
+    return c.json({ success: false } satisfies RegisterPushTokenResponse, 500);
+  }
+});
+
+export { notificationsRouter };
@@ -1,23 +1,27 @@
 import { Hono } from "hono";
-import * as fs from "node:fs";
-import * as path from "node:path";
 import { randomUUID } from "node:crypto";
 import { type AppType } from "../types";
 import { zValidator } from "@hono/zod-validator";
-import { uploadImageRequestSchema, type UploadImageResponse } from "../shared/contracts";
+import {
+  refreshUploadUrlRequestSchema,
+  UPLOAD_TOKEN_HEADER,
+  uploadImageRequestSchema,
+  type RefreshUploadUrlResponse,
+  type UploadImageResponse,
+} from "../shared/contracts";
+import { db } from "../db";
+import { storage } from "../lib/storage";
+import { detectImageType, stripImageMetadata } from "../lib/imageSanitizer";
+import { createUploadToken, signUploadUrl, verifyUploadToken } from "../lib/signedUrls";
+import { RATE_LIMITS, rateLimit } from "../lib/rateLimit";
 
 // ============================================
-// Uploads directory setup
+// Uploads storage
 // ============================================
-// Creates uploads/ directory if it doesn't exist
-// All uploaded images are stored here and served via /uploads/* endpoint
-const UPLOADS_DIR = path.join(process.cwd(), "uploads");
-if (!fs.existsSync(UPLOADS_DIR)) {
-  console.log("📁 [Upload] Creating uploads directory:", UPLOADS_DIR);
-  fs.mkdirSync(UPLOADS_DIR, { recursive: true });
-} else {
-  console.log("📁 [Upload] Uploads directory exists:", UPLOADS_DIR);
-}
+// Uploaded images are written through the configured blob storage driver
+// (local disk or S3, see src/lib/storage.ts) and served via /uploads/* endpoint
+// only with a signed, expiring URL (see src/lib/signedUrls.ts). The uploader is
+// recorded so it can get fresh URLs for the file later
 
 const uploadRouter = new Hono<AppType>();
 
@@ -25,10 +29,11 @@ const uploadRouter = new Hono<AppType>();
 // POST /api/upload/image - Upload an image
 // ============================================
 // Accepts multipart/form-data with "image" field
-// Validates file type and size before saving
-// Returns URL to access the uploaded image
-uploadRouter.post("/image", zValidator("form", uploadImageRequestSchema), async (c) => {
-  const { image } = c.req.valid("form");
+// Validates file size and real (magic byte) type, strips metadata before saving
+// Returns a signed URL to access the uploaded image ("singleUse=true" for a one-time URL)
+// and the upload token that gets fresh URLs from POST /api/upload/:filename/url
+uploadRouter.post("/image", rateLimit(RATE_LIMITS.upload), zValidator("form", uploadImageRequestSchema), async (c) => {
+  const { image, singleUse } = c.req.valid("form");
   console.log("📤 [Upload] Image upload request received");
 
   try {
@@ -41,17 +46,6 @@ uploadRouter.post("/image", zValidator("form", uploadImageRequestSchema), async
       `📄 [Upload] File received: ${image.name} (${image.type}, ${(image.size / 1024).toFixed(2)} KB)`,
     );
 
-    // Validate file type
-    const allowedTypes = ["image/jpeg", "image/jpg", "image/png", "image/gif", "image/webp"];
-    if (!allowedTypes.includes(image.type)) {
-      console.log(`❌ [Upload] Invalid file type: ${image.type}`);
-      return c.json(
-        { error: "Invalid file type. Only JPEG, PNG, GIF, and WebP images are allowed" },
-        400,
-      );
-    }
-    console.log(`✅ [Upload] File type validated: ${image.type}`);
-
     // Validate file size (10MB limit)
     const maxSize = 10 * 1024 * 1024; // 10MB
     if (image.size > maxSize) {
@@ -62,28 +56,52 @@ uploadRouter.post("/image", zValidator("form", uploadImageRequestSchema), async
     }
     console.log(`✅ [Upload] File size validated: ${(image.size / 1024).toFixed(2)} KB`);
 
-    // Generate unique filename to prevent collisions
-    const fileExtension = path.extname(image.name);
-    const uniqueFilename = `${randomUUID()}${fileExtension}`;
-    const filePath = path.join(UPLOADS_DIR, uniqueFilename);
+    // Validate file type from its magic bytes - the declared type and name are not trusted
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    const detected = detectImageType(bytes);
+    if (!detected) {
+      console.log(`❌ [Upload] Content is not an allowed image (declared: ${image.type})`);
+      return c.json(
+        { error: "Invalid file type. Only JPEG, PNG, GIF, and WebP images are allowed" },
+        400,
+      );
+    }
+    console.log(`✅ [Upload] File type detected: ${detected.mime}`);
+
+    // Strip EXIF/XMP metadata (GPS coordinates, camera details...) from JPEG and PNG
+    const sanitized = stripImageMetadata(bytes, detected);
+    if (!sanitized) {
+      console.log(`❌ [Upload] Malformed ${detected.mime} file`);
+      return c.json({ error: "Invalid or corrupted image file" }, 400);
+    }
+    console.log(`🧽 [Upload] Metadata stripped: ${bytes.length - sanitized.length} bytes removed`);
+
+    // Generate unique filename to prevent collisions, extension from the detected type
+    const uniqueFilename = `${randomUUID()}${detected.extension}`;
     console.log(`🔑 [Upload] Generated unique filename: ${uniqueFilename}`);
 
-    // Save file to disk
-    console.log(`💾 [Upload] Saving file to: ${filePath}`);
-    const arrayBuffer = await image.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    fs.writeFileSync(filePath, buffer);
+    // Save file to storage
+    console.log(`💾 [Upload] Saving file to ${storage.driver} storage: ${uniqueFilename}`);
+    await storage.put(uniqueFilename, sanitized, detected.mime);
+    const uploadToken = createUploadToken();
+    await db.upload.create({
+      data: { key: uniqueFilename, userId: c.get("user")?.id ?? null, tokenHash: uploadToken.hash },
+    });
     console.log(`✅ [Upload] File saved successfully`);
 
-    // Return the URL to access the uploaded image
-    const imageUrl = `/uploads/${uniqueFilename}`;
-    console.log(`🎉 [Upload] Upload complete! Image URL: ${imageUrl}`);
+    // Return a signed URL to access the uploaded image
+    const signed = signUploadUrl(uniqueFilename, { singleUse: singleUse === "true" });
+    console.log(
+      `🎉 [Upload] Upload complete! Signed URL for ${uniqueFilename} expires at ${signed.expiresAt.toISOString()}${singleUse === "true" ? " (single use)" : ""}`,
+    );
 
     return c.json({
       success: true,
       message: "Image uploaded successfully",
-      url: imageUrl,
+      url: signed.url,
+      expiresAt: signed.expiresAt.toISOString(),
       filename: uniqueFilename,
+      uploadToken: uploadToken.token,
     } satisfies UploadImageResponse);
   } catch (error) {
     console.error("💥 [Upload] Upload error:", error);
@@ -95,4 +113,43 @@ uploadRouter.post("/image", zValidator("form", uploadImageRequestSchema), async
   }
 });
 
+// ============================================
+// POST /api/upload/:filename/url - Fresh signed URL for an uploaded file
+// ============================================
+// Signed URLs expire after 15 minutes, the uploader gets a new one here: either
+// signed in as the account that uploaded it, or with the upload token
+uploadRouter.post(
+  "/:filename/url",
+  rateLimit(RATE_LIMITS.uploadUrl),
+  zValidator("json", refreshUploadUrlRequestSchema),
+  async (c) => {
+    const filename = c.req.param("filename");
+    const { singleUse = false } = c.req.valid("json");
+    const uploadToken = c.req.header(UPLOAD_TOKEN_HEADER);
+    console.log(`🔗 [Upload] Fresh URL requested for: ${filename}`);
+
+    try {
+      const upload = await db.upload.findUnique({ where: { key: filename } });
+      if (!upload) {
+        console.log(`❌ [Upload] Unknown upload: ${filename}`);
+        return c.json({ error: "Upload not found" }, 404);
+      }
+
+      const user = c.get("user");
+      const isUploader = !!user && upload.userId === user.id;
+      if (!isUploader && !(uploadToken && verifyUploadToken(uploadToken, upload.tokenHash))) {
+        console.log(`🚫 [Upload] Not the uploader of: ${filename}`);
+        return c.json({ error: "Only the uploader can get a URL for this file" }, 403);
+      }
+
+      const signed = signUploadUrl(filename, { singleUse });
+      console.log(`✅ [Upload] Fresh URL for ${filename} expires at ${signed.expiresAt.toISOString()}`);
+      return c.json({ url: signed.url, expiresAt: signed.expiresAt.toISOString() } satisfies RefreshUploadUrlResponse);
+    } catch (error) {
+      console.error("❌ [Upload] Failed to sign upload URL:", error);
+      return c.json({ error: "Failed to sign upload URL" }, 500);
+    }
+  }
+);
+
 export { uploadRouter };
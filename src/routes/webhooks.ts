@@ -0,0 +1,58 @@
+import { Hono } from "hono";
+import { timingSafeEqual } from "node:crypto";
+import { zValidator } from "@hono/zod-validator";
+import { type AppType } from "../types";
+import { env } from "../env";
+import { handleRevenueCatEvent, revenueCatWebhookSchema } from "../lib/revenuecatWebhook";
+
+const webhooksRouter = new Hono<AppType>();
+
+/**
+ * Compare the Authorization header with the value configured in RevenueCat
+ */
+const isAuthorized = (header: string | undefined): boolean => {
+  if (!env.REVENUECAT_WEBHOOK_AUTH || !header) {
+    return false;
+  }
+  const expected = Buffer.from(env.REVENUECAT_WEBHOOK_AUTH);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+// ============================================
+// POST /api/webhooks/revenuecat - Subscription lifecycle events
+// ============================================
+// Authenticated with the Authorization header set in the RevenueCat dashboard
+// (REVENUECAT_WEBHOOK_AUTH). Keeps NoteUsage.isPremium and its expiry in sync,
+// repeated event IDs are acknowledged without being applied again
+webhooksRouter.post(
+  "/revenuecat",
+  async (c, next) => {
+    if (!env.REVENUECAT_WEBHOOK_AUTH) {
+      console.log("❌ [Webhooks] RevenueCat webhook received but REVENUECAT_WEBHOOK_AUTH is not set");
+      return c.json({ error: "Webhook not configured" }, 503);
+    }
+    if (!isAuthorized(c.req.header("Authorization"))) {
+      console.log("❌ [Webhooks] Rejected RevenueCat webhook with a bad Authorization header");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+    return next();
+  },
+  zValidator("json", revenueCatWebhookSchema),
+  async (c) => {
+    const { event } = c.req.valid("json");
+    console.log(`💳 [Webhooks] RevenueCat ${event.type} event ${event.id} for: ${event.app_user_id ?? "unknown"}`);
+
+    try {
+      const result = await handleRevenueCatEvent(event);
+      console.log(`✅ [Webhooks] RevenueCat event ${event.id} ${result}`);
+      return c.json({ success: true, result });
+    } catch (error) {
+      // Non-2xx makes RevenueCat retry the delivery later
+      console.error(`❌ [Webhooks] Failed to apply RevenueCat event ${event.id}:`, error);
+      return c.json({ error: "Failed to process event" }, 500);
+    }
+  },
+);
+
+export { webhooksRouter };
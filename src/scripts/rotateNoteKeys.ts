@@ -0,0 +1,160 @@
+/**
+ * Note Master Key Rotation
+ *
+ * Usage: bun run rotate-keys
+ *
+ * Re-wraps the data key of every note under the current (first) master key,
+ * and seals notes that were stored before encryption at rest was turned on.
+ * Each note is updated on its own, conditionally on what was read, so the
+ * server keeps running (with the old and new keys both loaded) while this
+ * works through the table, and the command can be re-run after a failure.
+ * A note that can't be moved (e.g. its master key isn't configured here) is
+ * reported and skipped, the rest carry on and the command exits non-zero.
+ * Master keys left without notes are reported as safe to destroy.
+ */
+
+import { db } from "../db";
+import {
+  createDataKey,
+  getCurrentMasterKeyId,
+  getMasterKeyIds,
+  rewrapDataKey,
+  sealBytes,
+  sealText,
+} from "../lib/noteAtRest";
+
+const BATCH_SIZE = 200;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Re-wrap one batch of data keys held by older master keys
+ * Notes that fail are added to failed and left out of later batches
+ * Returns how many notes were looked at (0 when done)
+ */
+const rewrapBatch = async (currentKeyId: string, failed: Set<string>): Promise<number> => {
+  const notes = await db.note.findMany({
+    where: { id: { notIn: [...failed] }, keyId: { not: currentKeyId }, wrappedDataKey: { not: null } },
+    select: { id: true, keyId: true, wrappedDataKey: true },
+    take: BATCH_SIZE,
+  });
+
+  for (const note of notes) {
+    try {
+      // Skipped if the note was burned or re-wrapped meanwhile
+      await db.note.updateMany({
+        where: { id: note.id, keyId: note.keyId, wrappedDataKey: note.wrappedDataKey },
+        data: rewrapDataKey(note),
+      });
+    } catch (error) {
+      failed.add(note.id);
+      console.error(`⚠️ [Rotate] Could not re-wrap note ${note.id} (key ${note.keyId}): ${errorMessage(error)}`);
+    }
+  }
+  return notes.length;
+};
+
+/**
+ * Seal one batch of unread notes stored as sent (content and attachments are rewritten)
+ * Notes that fail are added to failed and left out of later batches
+ * Returns how many notes were looked at (0 when done)
+ */
+const sealBatch = async (failed: Set<string>): Promise<number> => {
+  const notes = await db.note.findMany({
+    where: { id: { notIn: [...failed] }, keyId: null, viewed: false },
+    select: { id: true },
+    take: BATCH_SIZE,
+  });
+
+  for (const { id } of notes) {
+    try {
+      await db.$transaction(async (tx) => {
+        // Same row lock as a reader (noteConsumption.ts), so a view can't see half a note
+        const [note] = await tx.$queryRaw<{ content: string }[]>`
+          SELECT "content" FROM "note" WHERE "id" = ${id} AND "keyId" IS NULL AND "viewed" = false FOR UPDATE
+        `;
+        if (!note) {
+          return;
+        }
+
+        const dataKey = createDataKey()!;
+        const attachments = await tx.noteAttachment.findMany({ where: { noteId: id } });
+        for (const attachment of attachments) {
+          await tx.noteAttachment.update({
+            where: { id: attachment.id },
+            data: {
+              data: sealBytes(dataKey.dataKey, "attachment-data", attachment.data),
+              meta: sealText(dataKey.dataKey, "attachment-meta", attachment.meta),
+            },
+          });
+        }
+        await tx.note.update({
+          where: { id },
+          data: {
+            content: sealText(dataKey.dataKey, "content", note.content),
+            keyId: dataKey.keyId,
+            wrappedDataKey: dataKey.wrappedDataKey,
+          },
+        });
+      }, { timeout: 15 * 1000 }); // Attachments can take a while to rewrite
+    } catch (error) {
+      failed.add(id);
+      console.error(`⚠️ [Rotate] Could not seal note ${id}: ${errorMessage(error)}`);
+    }
+  }
+  return notes.length;
+};
+
+const main = async () => {
+  const currentKeyId = getCurrentMasterKeyId();
+  if (!currentKeyId) {
+    console.error("❌ [Rotate] No master key configured, set NOTE_MASTER_KEYS or NOTE_MASTER_KEYS_FILE");
+    process.exit(1);
+  }
+  console.log(`🔑 [Rotate] Moving notes to master key: ${currentKeyId}`);
+
+  // Every note is looked at once: failed ones are skipped by the next batches
+  const failedRewraps = new Set<string>();
+  let looked = 0;
+  for (let count = await rewrapBatch(currentKeyId, failedRewraps); count > 0; ) {
+    looked += count;
+    console.log(`🔄 [Rotate] Re-wrapped ${looked - failedRewraps.size} data keys so far`);
+    count = await rewrapBatch(currentKeyId, failedRewraps);
+  }
+  const rewrapped = looked - failedRewraps.size;
+
+  const failedSeals = new Set<string>();
+  looked = 0;
+  for (let count = await sealBatch(failedSeals); count > 0; ) {
+    looked += count;
+    console.log(`🔒 [Rotate] Sealed ${looked - failedSeals.size} notes stored before encryption at rest`);
+    count = await sealBatch(failedSeals);
+  }
+  const sealed = looked - failedSeals.size;
+
+  // What is left under each key decides which old keys can go
+  const usage = await db.note.groupBy({ by: ["keyId"], where: { wrappedDataKey: { not: null } }, _count: true });
+  const inUse = new Set(usage.map((group) => group.keyId));
+
+  console.log(`✅ [Rotate] Done: ${rewrapped} re-wrapped, ${sealed} sealed`);
+  for (const group of usage) {
+    console.log(`📊 [Rotate] ${group._count} notes under ${group.keyId}`);
+  }
+  for (const keyId of getMasterKeyIds().filter((keyId) => !inUse.has(keyId))) {
+    console.log(`🗑️ [Rotate] No notes left under ${keyId}, it can be destroyed`);
+  }
+
+  if (failedRewraps.size > 0 || failedSeals.size > 0) {
+    console.error(
+      `❌ [Rotate] ${failedRewraps.size} notes could not be re-wrapped and ${failedSeals.size} could not be sealed, see the warnings above`
+    );
+    process.exitCode = 1;
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error("❌ [Rotate] Rotation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$disconnect());
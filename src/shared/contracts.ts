@@ -24,57 +24,258 @@ export type PostSampleResponse = z.infer<typeof postSampleResponseSchema>;
 // POST /api/upload/image
 export const uploadImageRequestSchema = z.object({
   image: z.instanceof(File),
+  singleUse: z.enum(["true", "false"]).optional(), // Signed URL works only once
 });
 export type UploadImageRequest = z.infer<typeof uploadImageRequestSchema>;
 export const uploadImageResponseSchema = z.object({
   success: z.boolean(),
   message: z.string(),
-  url: z.string(),
+  url: z.string(), // Signed, expiring URL
+  expiresAt: z.string(),
   filename: z.string(),
+  uploadToken: z.string(), // Shown once, send it in UPLOAD_TOKEN_HEADER to get fresh URLs later
 });
 export type UploadImageResponse = z.infer<typeof uploadImageResponseSchema>;
 
+// POST /api/upload/:filename/url - Fresh signed URL for an uploaded file
+// Allowed for the signed-in uploader, or with the upload token in UPLOAD_TOKEN_HEADER
+export const UPLOAD_TOKEN_HEADER = "X-Upload-Token";
+
+export const refreshUploadUrlRequestSchema = z.object({
+  singleUse: z.boolean().optional(), // Signed URL works only once
+});
+export type RefreshUploadUrlRequest = z.infer<typeof refreshUploadUrlRequestSchema>;
+
+export const refreshUploadUrlResponseSchema = z.object({
+  url: z.string(), // Signed, expiring URL
+  expiresAt: z.string(),
+});
+export type RefreshUploadUrlResponse = z.infer<typeof refreshUploadUrlResponseSchema>;
+
 // ============================================
 // DestructNote API Contracts
 // ============================================
 
+// Client-encrypted attachment, same key and format as content (see envelopeVersion)
+export const noteAttachmentInputSchema = z.object({
+  // Upper bound for the largest plan, each plan has its own maxAttachmentBytes
+  data: z.string().min(1, "Attachment is empty").max(28_000_000, "Attachment is too large"),
+  meta: z.string().min(1).max(2000), // Encrypted JSON { name, type }
+});
+export type NoteAttachmentInput = z.infer<typeof noteAttachmentInputSchema>;
+
+// A user's public @handle: 3-30 lowercase letters, digits or underscores (a leading @ is dropped)
+export const handleSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^@?[a-z0-9_]{3,30}$/, "Handles are 3-30 letters, digits or underscores")
+  .transform((handle) => handle.replace(/^@/, ""));
+
+// Public keys users publish so notes can be encrypted to them
+export const publicKeyAlgorithmSchema = z.enum(["x25519", "p256"]);
+export type PublicKeyAlgorithm = z.infer<typeof publicKeyAlgorithmSchema>;
+
+// Content key wrapped to a recipient's public key (version 1), so the link doesn't need to carry it:
+//   shared     = ECDH(ephemeral private key, recipient public key)       (X25519 or P-256, 32 bytes)
+//   kek        = HKDF-SHA256(ikm = shared, salt = epk, info = "destructnote:key-wrap:v1", 32 bytes)
+//   wrappedKey = AES-256-GCM(kek, nonce, raw content key, additional data = keyId), ciphertext || tag
+// epk is the raw ephemeral public key (32 bytes X25519, 65 bytes uncompressed P-256), all fields base64
+export const noteKeyEnvelopeSchema = z.object({
+  v: z.literal(1),
+  alg: publicKeyAlgorithmSchema, // Must match the recipient key's algorithm
+  keyId: z.string().regex(/^[0-9a-f]{64}$/, "Invalid key fingerprint"), // Recipient key fingerprint
+  epk: z.base64().max(128),
+  nonce: z.base64().length(16, "Invalid nonce"), // 12 bytes
+  wrappedKey: z.base64().length(64, "Invalid wrapped key"), // 32-byte key + 16-byte tag
+});
+export type NoteKeyEnvelope = z.infer<typeof noteKeyEnvelopeSchema>;
+
 // POST /api/notes - Create a new self-destructing note
+// Maximums here are those of the largest plan, the server enforces the sender's plan limits
 export const createNoteRequestSchema = z.object({
-  content: z.string().min(1, "Note content is required").max(10000, "Note is too long"),
+  content: z.string().min(1, "Note content is required").max(100_000, "Note is too long"),
+  // Format of content and attachments: 1 = versioned AES-256-GCM envelope (src/lib/noteEnvelope.ts),
+  // omitted = legacy AES-256-CTR (base64 of nonce || ciphertext), kept for older apps.
+  // Version 1 links put the version in the fragment, #v1.<key> (or #v1 with a keyEnvelope)
+  envelopeVersion: z.literal(1).optional(),
   deviceId: z.string().min(1, "Device ID is required"),
+  // Time-to-live in seconds, chosen by the sender (e.g. 300 = 5 minutes, 604800 = 7 days)
+  expiresInSeconds: z
+    .number()
+    .int()
+    .min(5 * 60, "Expiry must be at least 5 minutes")
+    .max(365 * 24 * 60 * 60, "Expiry cannot be longer than 365 days")
+    .optional(),
+  // How many times the note can be read before it self-destructs (defaults to 1)
+  maxViews: z.number().int().min(1, "A note needs at least one view").max(10, "A note can have at most 10 views").optional(),
+  // Optional second factor. Never the passphrase itself: base64 of
+  // PBKDF2-SHA256(passphrase, salt = raw encryption key, 100000 iterations, 32 bytes)
+  passphraseVerifier: z.string().min(16, "Invalid passphrase verifier").max(256, "Invalid passphrase verifier").optional(),
+  // Proves the reader holds the key before a note can be burned: base64 of
+  // SHA-256(HMAC-SHA256(key = raw encryption key, message = "destructnote:reveal"))
+  keyCommitment: z.string().length(44, "Invalid key commitment").optional(),
+  attachments: z.array(noteAttachmentInputSchema).max(3, "A note can have at most 3 attachments").optional(),
+  // Deliver to this user's inbox instead of by link (needs a signed-in sender)
+  recipientHandle: handleSchema.optional(),
+  // Content key wrapped to the recipient's current public key (GET /api/handles/:handle/key)
+  keyEnvelope: noteKeyEnvelopeSchema.optional(),
+  // Read notifications for the sender. Email needs a signed-in user, push a registered token
+  notify: z
+    .object({
+      push: z.boolean().optional(),
+      email: z.boolean().optional(),
+      webhookUrl: z.url("Invalid webhook URL").optional(),
+    })
+    .optional(),
 });
 export type CreateNoteRequest = z.infer<typeof createNoteRequestSchema>;
 
+// Optional header: retries with the same key and deviceId return the original response
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
 export const createNoteResponseSchema = z.object({
   id: z.string(),
   success: z.boolean(),
+  expiresAt: z.string(),
+  manageToken: z.string(), // Secret for the sender only, shown once
+  webhookSecret: z.string().optional(), // HMAC key for X-DestructNote-Signature, only with notify.webhookUrl
 });
 export type CreateNoteResponse = z.infer<typeof createNoteResponseSchema>;
 
-// GET /api/notes/:id - Get and destroy a note
+// GET /api/notes/:id - Get a note, destroying it when its last view is used
+export const noteAttachmentSchema = z.object({
+  id: z.string(),
+  data: z.string(),
+  meta: z.string(),
+});
 export const getNoteResponseSchema = z.object({
   content: z.string(),
+  envelopeVersion: z.number(), // Format of content and attachments, 0 = legacy AES-256-CTR
   destroyed: z.boolean(),
+  remainingViews: z.number(),
+  attachments: z.array(noteAttachmentSchema),
 });
 export type GetNoteResponse = z.infer<typeof getNoteResponseSchema>;
 
-// Error response for note not found or already viewed
+// Where a note was revealed: the web viewer (/note/:id), the JSON API or the recipient's inbox
+export const noteRevealSourceSchema = z.enum(["web", "api", "inbox"]);
+export type NoteRevealSource = z.infer<typeof noteRevealSourceSchema>;
+
+// GET /api/notes/:id/status - Delivery status for the sender, never touches the content
+// Authenticated by the manage token from CreateNoteResponse in this header
+export const MANAGE_TOKEN_HEADER = "X-Manage-Token";
+export const noteStatusSchema = z.enum(["pending", "revealed", "expired", "destroyed", "revoked"]);
+export type NoteStatus = z.infer<typeof noteStatusSchema>;
+
+export const noteStatusResponseSchema = z.object({
+  id: z.string(),
+  status: noteStatusSchema,
+  createdAt: z.string(),
+  expiresAt: z.string(),
+  revealedAt: z.string().nullable(),
+  revokedAt: z.string().nullable(),
+  revealSource: noteRevealSourceSchema.nullable(),
+  maxViews: z.number(),
+  remainingViews: z.number(),
+});
+export type NoteStatusResponse = z.infer<typeof noteStatusResponseSchema>;
+
+// DELETE /api/notes/:id - Sender revokes a note before it is read
+// Authenticated by the manage token in MANAGE_TOKEN_HEADER
+export const revokeNoteResponseSchema = z.object({
+  success: z.boolean(),
+  revokedAt: z.string(),
+});
+export type RevokeNoteResponse = z.infer<typeof revokeNoteResponseSchema>;
+
+// Passphrase-protected notes send the verifier in this header on GET /api/notes/:id
+export const PASSPHRASE_VERIFIER_HEADER = "X-Passphrase-Verifier";
+// Notes with a key commitment need the base64 HMAC proof in this header on GET /api/notes/:id
+export const KEY_PROOF_HEADER = "X-Key-Proof";
+
+// GET /api/notes/:id/envelope - Wrapped content key of a note, needed before reading it
+// (the key proof and passphrase verifier are derived from the unwrapped key). Doesn't use a view
+export const noteEnvelopeResponseSchema = z.object({
+  keyEnvelope: noteKeyEnvelopeSchema.nullable(), // null for notes whose key travels in the link
+});
+export type NoteEnvelopeResponse = z.infer<typeof noteEnvelopeResponseSchema>;
+
+// POST /note/:id/reveal - Consume a view from the web viewer
+export const revealNoteRequestSchema = z.object({
+  keyProof: z.string().max(256).optional(),
+  passphraseVerifier: z.string().max(256).optional(),
+});
+export type RevealNoteRequest = z.infer<typeof revealNoteRequestSchema>;
+
+// Error response for note not found, already viewed, revoked, expired or locked by a key proof or passphrase
 export const noteErrorResponseSchema = z.object({
   error: z.string(),
-  code: z.enum(["NOT_FOUND", "ALREADY_VIEWED", "LIMIT_REACHED"]),
+  code: z.enum([
+    "NOT_FOUND",
+    "ALREADY_VIEWED",
+    "REVOKED",
+    "EXPIRED",
+    "LIMIT_REACHED",
+    "INVALID_KEY_PROOF",
+    "INVALID_MANAGE_TOKEN",
+    "INVALID_WEBHOOK_URL",
+    "ATTACHMENT_TOO_LARGE",
+    "PASSPHRASE_REQUIRED",
+    "PASSPHRASE_INCORRECT",
+    "RATE_LIMITED",
+    "PLAN_LIMIT_EXCEEDED",
+    "IDEMPOTENCY_CONFLICT",
+    "SIGN_IN_REQUIRED",
+    "RECIPIENT_NOT_FOUND",
+    "INVALID_KEY_ENVELOPE",
+    "INVALID_ENVELOPE",
+  ]),
+  attemptsLeft: z.number().optional(), // Only set for PASSPHRASE_INCORRECT
 });
 export type NoteErrorResponse = z.infer<typeof noteErrorResponseSchema>;
 
 // GET /api/notes/usage/:deviceId - Get note usage for a device
+// Plans: free, plus and pro (paid tiers come from RevenueCat entitlements)
+export const planTierSchema = z.enum(["free", "plus", "pro"]);
+export type PlanTier = z.infer<typeof planTierSchema>;
+
+// Period the note quota is counted over: forever, per calendar month (UTC) or the last N days
+export const quotaWindowSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("lifetime") }),
+  z.object({ type: z.literal("month") }),
+  z.object({ type: z.literal("rolling"), days: z.number() }),
+]);
+export type QuotaWindow = z.infer<typeof quotaWindowSchema>;
+
+export const planLimitsSchema = z.object({
+  noteQuota: z.number().nullable(), // Notes the device can create per quota window, null = unlimited
+  quotaWindow: quotaWindowSchema,
+  maxContentLength: z.number(), // Characters of encrypted content
+  maxTtlSeconds: z.number(),
+  maxAttachments: z.number(),
+  maxAttachmentBytes: z.number(), // Per attachment, decoded ciphertext
+  features: z.object({
+    attachments: z.boolean(),
+    passphrase: z.boolean(),
+    emailNotifications: z.boolean(),
+    webhookNotifications: z.boolean(),
+  }),
+});
+export type PlanLimits = z.infer<typeof planLimitsSchema>;
+
 export const noteUsageResponseSchema = z.object({
-  count: z.number(),
-  limit: z.number(),
+  count: z.number(), // Notes created in the current quota window
+  limit: z.number(), // Note quota, the free quota on unlimited plans (kept for older app versions)
   isPremium: z.boolean(),
   canCreate: z.boolean(),
+  resetsAt: z.string().nullable(), // When the quota window frees up notes, null if it never does (or nothing is used)
+  tier: planTierSchema,
+  limits: planLimitsSchema,
 });
 export type NoteUsageResponse = z.infer<typeof noteUsageResponseSchema>;
 
-// POST /api/notes/upgrade - Mark device as premium
+// POST /api/notes/upgrade - Mark device as premium once RevenueCat confirms the purchase
 export const upgradeRequestSchema = z.object({
   deviceId: z.string().min(1, "Device ID is required"),
 });
@@ -83,5 +284,172 @@ export type UpgradeRequest = z.infer<typeof upgradeRequestSchema>;
 export const upgradeResponseSchema = z.object({
   success: z.boolean(),
   isPremium: z.boolean(),
+  provisionalUntil: z.string().optional(), // Set when RevenueCat couldn't confirm the purchase yet
 });
 export type UpgradeResponse = z.infer<typeof upgradeResponseSchema>;
+
+// POST /api/devices/secret - Get the device's secret, issued once on first use
+export const issueDeviceSecretRequestSchema = z.object({
+  deviceId: z.string().min(1, "Device ID is required"),
+  // Installs that already have notes or a plan prove themselves with the manage token
+  // of a note they created before device secrets existed
+  manageToken: z.string().min(1).optional(),
+});
+export type IssueDeviceSecretRequest = z.infer<typeof issueDeviceSecretRequestSchema>;
+
+export const issueDeviceSecretResponseSchema = z.object({
+  success: z.boolean(),
+  deviceSecret: z.string(), // Shown once, keep it with the deviceId to prove the device later
+});
+export type IssueDeviceSecretResponse = z.infer<typeof issueDeviceSecretResponseSchema>;
+
+// POST /api/me/devices/claim - Link devices to the signed-in account
+export const claimDevicesRequestSchema = z.object({
+  devices: z
+    .array(
+      z.object({
+        deviceId: z.string().min(1, "Device ID is required"),
+        deviceSecret: z.string().min(1, "Device secret is required"), // From POST /api/devices/secret
+      })
+    )
+    .min(1)
+    .max(10),
+});
+export type ClaimDevicesRequest = z.infer<typeof claimDevicesRequestSchema>;
+
+export const claimDevicesResponseSchema = z.object({
+  success: z.boolean(),
+  claimed: z.array(z.string()), // Newly linked to the account
+  alreadyClaimed: z.array(z.string()), // Already linked to this account
+  conflicts: z.array(z.string()), // Linked to another account, left untouched
+  unverified: z.array(z.string()), // Device secret missing or wrong, left untouched
+  tier: planTierSchema, // Account plan after merging the devices
+  isPremium: z.boolean(),
+});
+export type ClaimDevicesResponse = z.infer<typeof claimDevicesResponseSchema>;
+
+// GET /api/me/notes - Notes sent by the signed-in user, newest first (metadata only, never content)
+export const listMyNotesQuerySchema = z.object({
+  status: z.enum(["pending", "revealed", "expired", "revoked"]).optional(),
+  cursor: z.string().optional(), // nextCursor of the previous page
+  limit: z.coerce.number().int().min(1).max(100).optional(), // Defaults to 20
+});
+export type ListMyNotesQuery = z.infer<typeof listMyNotesQuerySchema>;
+
+export const myNoteSchema = z.object({
+  id: z.string(),
+  status: noteStatusSchema,
+  createdAt: z.string(),
+  expiresAt: z.string(),
+  revealedAt: z.string().nullable(),
+  revokedAt: z.string().nullable(),
+  maxViews: z.number(),
+  remainingViews: z.number(),
+});
+export type MyNote = z.infer<typeof myNoteSchema>;
+
+export const listMyNotesResponseSchema = z.object({
+  notes: z.array(myNoteSchema),
+  nextCursor: z.string().nullable(), // null on the last page
+});
+export type ListMyNotesResponse = z.infer<typeof listMyNotesResponseSchema>;
+
+// POST /api/me/notes/revoke - Revoke every note of the signed-in user that can still be read
+export const revokeMyNotesResponseSchema = z.object({
+  success: z.boolean(),
+  revoked: z.number(), // How many notes were burned
+  revokedAt: z.string(),
+});
+export type RevokeMyNotesResponse = z.infer<typeof revokeMyNotesResponseSchema>;
+
+// POST /api/handles - Register or change the signed-in user's handle
+export const registerHandleRequestSchema = z.object({
+  handle: handleSchema,
+});
+export type RegisterHandleRequest = z.infer<typeof registerHandleRequestSchema>;
+
+export const registerHandleResponseSchema = z.object({
+  success: z.boolean(),
+  handle: z.string(),
+});
+export type RegisterHandleResponse = z.infer<typeof registerHandleResponseSchema>;
+
+// GET /api/handles/search?q= - Handles starting with a prefix, for recipient autocomplete
+export const searchHandlesQuerySchema = z.object({
+  q: z.string().trim().toLowerCase().regex(/^@?[a-z0-9_]{1,30}$/, "Invalid handle prefix").transform((q) => q.replace(/^@/, "")),
+});
+export type SearchHandlesQuery = z.infer<typeof searchHandlesQuerySchema>;
+
+export const searchHandlesResponseSchema = z.object({
+  handles: z.array(z.string()),
+});
+export type SearchHandlesResponse = z.infer<typeof searchHandlesResponseSchema>;
+
+// POST /api/me/keys - Publish a new public key, retiring the current one (key rotation)
+export const publishPublicKeyRequestSchema = z.object({
+  algorithm: publicKeyAlgorithmSchema,
+  publicKey: z.base64().max(128), // Raw public key: 32 bytes X25519, 65 bytes uncompressed P-256
+});
+export type PublishPublicKeyRequest = z.infer<typeof publishPublicKeyRequestSchema>;
+
+export const publicKeySchema = z.object({
+  algorithm: publicKeyAlgorithmSchema,
+  publicKey: z.string(),
+  fingerprint: z.string(), // hex SHA-256 of the raw public key, shown to users to compare keys
+  createdAt: z.string(),
+  retiredAt: z.string().nullable(), // Set once rotated out
+});
+export type PublicKey = z.infer<typeof publicKeySchema>;
+
+export const publishPublicKeyResponseSchema = z.object({
+  success: z.boolean(),
+  key: publicKeySchema,
+});
+export type PublishPublicKeyResponse = z.infer<typeof publishPublicKeyResponseSchema>;
+
+// GET /api/me/keys - Every key the signed-in user published, newest first
+export const listPublicKeysResponseSchema = z.object({
+  keys: z.array(publicKeySchema),
+});
+export type ListPublicKeysResponse = z.infer<typeof listPublicKeysResponseSchema>;
+
+// GET /api/handles/:handle/key - Current public key of a handle, to encrypt notes to
+export const handleKeyResponseSchema = z.object({
+  handle: z.string(),
+  key: publicKeySchema,
+});
+export type HandleKeyResponse = z.infer<typeof handleKeyResponseSchema>;
+
+// GET /api/inbox - Notes sent to the signed-in user's handle that can still be read (metadata only)
+export const inboxNoteSchema = z.object({
+  id: z.string(),
+  from: z.string().nullable(), // Sender's handle, null if they have none
+  createdAt: z.string(),
+  expiresAt: z.string(),
+  remainingViews: z.number(),
+  passphraseProtected: z.boolean(),
+  attachmentCount: z.number(),
+  keyEnvelope: noteKeyEnvelopeSchema.nullable(), // Unwrap with your private key to get the content key
+});
+export type InboxNote = z.infer<typeof inboxNoteSchema>;
+
+export const inboxResponseSchema = z.object({
+  notes: z.array(inboxNoteSchema),
+});
+export type InboxResponse = z.infer<typeof inboxResponseSchema>;
+
+// POST /api/inbox/:id/consume - Read an inbox note, same body as the web reveal and
+// same GetNoteResponse or NoteErrorResponse as GET /api/notes/:id
+
+// POST /api/notifications/push-token - Register the Expo push token for a device
+export const registerPushTokenRequestSchema = z.object({
+  deviceId: z.string().min(1, "Device ID is required"),
+  expoPushToken: z.string().regex(/^(Exponent|Expo)PushToken\[.+\]$/, "Invalid Expo push token"),
+  deviceSecret: z.string().optional(), // From POST /api/devices/secret, required once the device has one
+});
+export type RegisterPushTokenRequest = z.infer<typeof registerPushTokenRequestSchema>;
+
+export const registerPushTokenResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type RegisterPushTokenResponse = z.infer<typeof registerPushTokenResponseSchema>;
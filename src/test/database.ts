@@ -0,0 +1,46 @@
+/**
+ * Test Database
+ *
+ * Shared setup for specs that need Postgres (row locks, conditional updates).
+ * Without DATABASE_URL they are skipped with a warning. With DATABASE_URL set
+ * but the database unreachable they fail, so CI can't pass without running them.
+ */
+
+import { afterAll, describe, test } from "bun:test";
+import { db } from "../db";
+
+const databaseUrl = process.env.DATABASE_URL;
+
+const databaseReachable = databaseUrl
+  ? await db.$queryRaw`SELECT 1`.then(
+      () => true,
+      () => false
+    )
+  : false;
+
+if (!databaseUrl) {
+  console.warn("⚠️ [Tests] DATABASE_URL is not set, database specs are skipped");
+}
+
+/**
+ * describe() for specs that run against the database
+ * cleanup removes the rows the specs created, then the client disconnects
+ */
+export const describeWithDatabase = (name: string, cleanup: () => Promise<unknown>, specs: () => void) => {
+  if (databaseUrl && !databaseReachable) {
+    describe(name, () => {
+      test("database is reachable", () => {
+        throw new Error("DATABASE_URL is set but the database can't be reached");
+      });
+    });
+    return;
+  }
+
+  describe.skipIf(!databaseReachable)(name, () => {
+    afterAll(async () => {
+      await cleanup();
+      await db.$disconnect();
+    });
+    specs();
+  });
+};